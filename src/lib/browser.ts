@@ -0,0 +1,277 @@
+import { SourceLocation } from "@babel/types";
+import { ScriptCov } from "@c88/v8-coverage";
+import { Protocol } from "devtools-protocol";
+import { ParsedScriptUrl, parseSys as parseNodeScriptUrl } from "node-script-url";
+import { getAnonymousPath } from "./in-memory";
+import { getSourceTextHash, istanbulize } from "./istanbulize";
+import { mergeFileCoverage } from "./process";
+import { SourceType } from "./source-type";
+import { IstanbulBranch, IstanbulFileCoverageData, IstanbulFunction } from "./types";
+import { detectWrapper, WrapperPreset } from "./wrapper";
+
+/**
+ * Source of a script collected in the browser.
+ *
+ * The position fields are the ones of the CDP `Debugger.scriptParsed` event.
+ * Entries of the Playwright coverage API (with their `source`) can be used directly.
+ */
+export interface BrowserScript {
+  scriptId: string;
+  url: string;
+
+  /**
+   * Source text of the script (`Debugger.getScriptSource`).
+   */
+  source: string;
+
+  /**
+   * 0-based line of the start of the script in its document, for inline `<script>` blocks.
+   *
+   * Default: `0`
+   */
+  startLine?: number;
+
+  /**
+   * 0-based column of the start of the script in its document, for inline `<script>` blocks.
+   *
+   * Default: `0`
+   */
+  startColumn?: number;
+
+  /**
+   * Default: `false`
+   */
+  isModule?: boolean;
+}
+
+export interface IstanbulizeBrowserOptions {
+  /**
+   * Add the hit counts of the lines computed from the V8 block ranges (`l` field).
+   *
+   * Default: `false`
+   */
+  lines?: boolean;
+
+  /**
+   * Returns the path of the local file for the URL of a script, or `undefined` to skip it.
+   *
+   * By default, `file://` URLs are converted to system paths and other URLs are kept.
+   */
+  mapUrl?(url: string): string | undefined;
+
+  /**
+   * Called when a script fails to convert, has no source or has a different source
+   * than a script loaded at the same position: the script is then skipped.
+   *
+   * By default, the error is thrown.
+   */
+  onError?(url: string, error: Error): void;
+
+  /**
+   * Called when a script is skipped because `mapUrl` returned `undefined`.
+   */
+  onSkip?(url: string): void;
+}
+
+/**
+ * Coverage of a script with its position in its document.
+ */
+interface InlineFileCoverage {
+  startLine: number;
+  startColumn: number;
+  fileCov: IstanbulFileCoverageData;
+}
+
+/**
+ * Converts the precise coverage collected in a browser to Istanbul FileCoverage data objects.
+ *
+ * The coverage is the result of the CDP `Profiler.takePreciseCoverage` command
+ * and the sources are collected from the `Debugger.scriptParsed` events.
+ * Scripts without a URL (for example created by `eval`) are reported at the
+ * synthetic path of their source text, like `istanbulizeInMemoryCov`. The
+ * locations of inline scripts are shifted to their position in their document,
+ * and the inline scripts of a document are reported together.
+ *
+ * @param scriptCovs Coverage of the scripts.
+ * @param scripts Sources of the scripts, matched to the coverage by script ID.
+ * @param options URL mapping, error handling and line counts.
+ * @return Coverage data for each document or script, keyed by mapped path.
+ */
+export function istanbulizeBrowserCov(
+  scriptCovs: ReadonlyArray<Protocol.Profiler.ScriptCoverage>,
+  scripts: ReadonlyArray<BrowserScript>,
+  options: Readonly<IstanbulizeBrowserOptions> = {},
+): Record<string, IstanbulFileCoverageData> {
+  const mapUrl: (url: string) => string | undefined = options.mapUrl !== undefined ? options.mapUrl : defaultMapUrl;
+  const sources: Map<string, BrowserScript> = new Map();
+  for (const script of scripts) {
+    sources.set(script.scriptId, script);
+  }
+
+  // Coverage of each script, keyed by path then by start position in the document
+  const documents: Map<string, Map<string, InlineFileCoverage>> = new Map();
+  for (const scriptCov of scriptCovs) {
+    const mappedPath: string | undefined = scriptCov.url !== "" ? mapUrl(scriptCov.url) : undefined;
+    if (scriptCov.url !== "" && mappedPath === undefined) {
+      if (options.onSkip !== undefined) {
+        options.onSkip(scriptCov.url);
+      }
+      continue;
+    }
+    const script: BrowserScript | undefined = sources.get(scriptCov.scriptId);
+    if (script === undefined) {
+      const error: Error = new Error(`MissingSource: No source for the script ${scriptCov.scriptId}`);
+      if (options.onError === undefined) {
+        throw error;
+      }
+      options.onError(scriptCov.url, error);
+      continue;
+    }
+    const path: string = mappedPath !== undefined ? mappedPath : getAnonymousPath(getSourceTextHash(script.source));
+    const startLine: number = script.startLine !== undefined ? script.startLine : 0;
+    const startColumn: number = script.startColumn !== undefined ? script.startColumn : 0;
+    let document: Map<string, InlineFileCoverage> | undefined = documents.get(path);
+    const position: string = `${startLine}:${startColumn}`;
+    const old: InlineFileCoverage | undefined = document !== undefined ? document.get(position) : undefined;
+    let fileCov: IstanbulFileCoverageData;
+    try {
+      // Browser scripts are not wrapped: this only checks that the source matches
+      detectWrapper(scriptCov, script.source, [WrapperPreset.VmCompileFunction]);
+      fileCov = istanbulize({
+        sourceText: script.source,
+        sourceType: script.isModule === true ? SourceType.Module : SourceType.Script,
+        scriptCov: scriptCov as ScriptCov,
+        hash: true,
+        lines: options.lines,
+      });
+      fileCov = shiftFileCoverage({...fileCov, path}, startLine, startColumn);
+      if (old !== undefined) {
+        // Throws `MismatchedSources` if another script was loaded at this position (e.g. after a reload)
+        fileCov = mergeFileCoverage(old.fileCov, fileCov);
+      }
+    } catch (err) {
+      if (options.onError === undefined) {
+        throw err;
+      }
+      options.onError(scriptCov.url, err);
+      continue;
+    }
+    if (document === undefined) {
+      document = new Map();
+      documents.set(path, document);
+    }
+    document.set(position, {startLine, startColumn, fileCov});
+  }
+
+  const result: Record<string, IstanbulFileCoverageData> = Object.create(null);
+  for (const [path, document] of documents) {
+    const fileCovs: IstanbulFileCoverageData[] = [...document.values()]
+      .sort((a: InlineFileCoverage, b: InlineFileCoverage) => a.startLine - b.startLine || a.startColumn - b.startColumn)
+      .map(({fileCov}: InlineFileCoverage) => fileCov);
+    result[path] = fileCovs.length === 1 ? fileCovs[0] : concatFileCoverages(path, fileCovs);
+  }
+  return result;
+}
+
+function defaultMapUrl(url: string): string {
+  const urlInfo: ParsedScriptUrl = parseNodeScriptUrl(url);
+  return urlInfo.isFileUrl ? urlInfo.path : url;
+}
+
+/**
+ * Shifts the locations of the coverage of an inline script to its position in its document.
+ *
+ * @param fileCov Coverage relative to the source text of the script.
+ * @param startLine 0-based line of the start of the script.
+ * @param startColumn 0-based column of the start of the script.
+ */
+function shiftFileCoverage(
+  fileCov: IstanbulFileCoverageData,
+  startLine: number,
+  startColumn: number,
+): IstanbulFileCoverageData {
+  if (startLine === 0 && startColumn === 0) {
+    return fileCov;
+  }
+  const shiftLoc = ({start, end}: SourceLocation): SourceLocation => ({
+    start: {line: start.line + startLine, column: start.line === 1 ? start.column + startColumn : start.column},
+    end: {line: end.line + startLine, column: end.line === 1 ? end.column + startColumn : end.column},
+  });
+
+  const statementMap: Record<string, SourceLocation> = Object.create(null);
+  for (const [key, loc] of Object.entries(fileCov.statementMap)) {
+    statementMap[key] = shiftLoc(loc);
+  }
+  const fnMap: Record<string, IstanbulFunction> = Object.create(null);
+  for (const [key, fn] of Object.entries(fileCov.fnMap)) {
+    fnMap[key] = {...fn, decl: shiftLoc(fn.decl), loc: shiftLoc(fn.loc), line: fn.line + startLine};
+  }
+  const branchMap: Record<string, IstanbulBranch> = Object.create(null);
+  for (const [key, branch] of Object.entries(fileCov.branchMap)) {
+    branchMap[key] = {
+      ...branch,
+      loc: shiftLoc(branch.loc),
+      locations: branch.locations.map(shiftLoc),
+      line: branch.line + startLine,
+    };
+  }
+  const result: IstanbulFileCoverageData = {...fileCov, statementMap, fnMap, branchMap};
+  if (fileCov.l !== undefined) {
+    const l: Record<number, number> = Object.create(null);
+    for (const [line, count] of Object.entries(fileCov.l)) {
+      l[Number(line) + startLine] = count;
+    }
+    result.l = l;
+  }
+  return result;
+}
+
+/**
+ * Concatenates the coverage of the inline scripts of a document.
+ *
+ * The items are renumbered and the hash is dropped: it is the hash of a single script.
+ */
+function concatFileCoverages(path: string, fileCovs: ReadonlyArray<IstanbulFileCoverageData>): IstanbulFileCoverageData {
+  const result: IstanbulFileCoverageData = {
+    path,
+    statementMap: Object.create(null),
+    s: Object.create(null),
+    fnMap: Object.create(null),
+    f: Object.create(null),
+    branchMap: Object.create(null),
+    b: Object.create(null),
+  };
+  let l: Record<number, number> | undefined;
+  let statementCount: number = 0;
+  let functionCount: number = 0;
+  let branchCount: number = 0;
+  for (const fileCov of fileCovs) {
+    for (const [key, loc] of Object.entries(fileCov.statementMap)) {
+      const newKey: string = `s${statementCount++}`;
+      result.statementMap[newKey] = loc;
+      result.s[newKey] = fileCov.s[key];
+    }
+    for (const [key, fn] of Object.entries(fileCov.fnMap)) {
+      const newKey: string = `f${functionCount++}`;
+      result.fnMap[newKey] = fn;
+      result.f[newKey] = fileCov.f[key];
+    }
+    for (const [key, branch] of Object.entries(fileCov.branchMap)) {
+      const newKey: string = `b${branchCount++}`;
+      result.branchMap[newKey] = branch;
+      result.b[newKey] = fileCov.b[key];
+    }
+    if (fileCov.l !== undefined) {
+      if (l === undefined) {
+        l = Object.create(null) as Record<number, number>;
+      }
+      for (const [line, count] of Object.entries(fileCov.l)) {
+        l[Number(line)] = (l[Number(line)] !== undefined ? l[Number(line)] : 0) + count;
+      }
+    }
+  }
+  if (l !== undefined) {
+    result.l = l;
+  }
+  return result;
+}
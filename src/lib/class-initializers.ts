@@ -0,0 +1,112 @@
+import { Class } from "@babel/types";
+import { FunctionCov, RangeCov } from "@c88/v8-coverage";
+
+export const INSTANCE_INITIALIZER_NAME: string = "<instance_members_initializer>";
+export const STATIC_INITIALIZER_NAME: string = "<static_initializer>";
+
+/**
+ * Synthetic V8 function evaluating the fields of a class.
+ *
+ * V8 reports one `<instance_members_initializer>` function for the instance
+ * fields and one `<static_initializer>` function for the static fields and
+ * static blocks of each class. Their ranges depend on the V8 version, they
+ * are only matched to the class containing them.
+ */
+export class ClassInitializer {
+  public readonly classNode: Class;
+  public readonly isStatic: boolean;
+
+  public constructor(classNode: Class, isStatic: boolean) {
+    this.classNode = classNode;
+    this.isStatic = isStatic;
+  }
+}
+
+/**
+ * Class with the innermost class containing it.
+ */
+interface NestedClass {
+  classNode: Class;
+  parent: NestedClass | undefined;
+}
+
+/**
+ * Matches the V8 initializer functions to the innermost class containing them.
+ *
+ * The classes are sorted by start offset once: the innermost class containing
+ * a function is found by binary search, then by walking up its parents.
+ */
+export function matchClassInitializers(
+  classInitializers: ReadonlyMap<Class, ReadonlyArray<ClassInitializer>>,
+  funcCovs: Iterable<FunctionCov>,
+): Map<ClassInitializer, FunctionCov> {
+  const classes: NestedClass[] = nestClasses(classInitializers.keys());
+  const matched: Map<ClassInitializer, FunctionCov> = new Map();
+  for (const funcCov of funcCovs) {
+    if (funcCov.functionName !== INSTANCE_INITIALIZER_NAME && funcCov.functionName !== STATIC_INITIALIZER_NAME) {
+      continue;
+    }
+    const isStatic: boolean = funcCov.functionName === STATIC_INITIALIZER_NAME;
+    const {startOffset, endOffset} = funcCov.ranges[0];
+    // The classes starting before the function are either its ancestors or end before it
+    let cur: NestedClass | undefined = findLastClassStartingAt(classes, startOffset);
+    for (; cur !== undefined; cur = cur.parent) {
+      if (endOffset > cur.classNode.end!) {
+        continue;
+      }
+      const initializers: ReadonlyArray<ClassInitializer> = classInitializers.get(cur.classNode)!;
+      const initializer: ClassInitializer | undefined = initializers.find((candidate) => candidate.isStatic === isStatic);
+      if (initializer !== undefined && !matched.has(initializer)) {
+        matched.set(initializer, funcCov);
+        break;
+      }
+    }
+  }
+  return matched;
+}
+
+/**
+ * Returns the ranges of a class initializer, extended to the whole class.
+ *
+ * Depending on the V8 version, the range of the initializer does not contain
+ * all the fields: the other fields get the count of the initializer.
+ */
+export function getClassInitializerRanges(initializer: ClassInitializer, funcCov: FunctionCov): RangeCov[] {
+  const {start, end} = initializer.classNode;
+  return [{startOffset: start!, endOffset: end!, count: funcCov.ranges[0].count}, ...funcCov.ranges];
+}
+
+/**
+ * Returns the classes sorted by start offset, with their parent.
+ */
+function nestClasses(classNodes: Iterable<Class>): NestedClass[] {
+  const sorted: Class[] = [...classNodes].sort((a: Class, b: Class) => a.start! - b.start! || b.end! - a.end!);
+  const result: NestedClass[] = [];
+  const stack: NestedClass[] = [];
+  for (const classNode of sorted) {
+    while (stack.length > 0 && stack[stack.length - 1].classNode.end! < classNode.end!) {
+      stack.pop();
+    }
+    const nested: NestedClass = {classNode, parent: stack.length > 0 ? stack[stack.length - 1] : undefined};
+    result.push(nested);
+    stack.push(nested);
+  }
+  return result;
+}
+
+/**
+ * Returns the last class starting at or before the offset.
+ */
+function findLastClassStartingAt(classes: ReadonlyArray<NestedClass>, offset: number): NestedClass | undefined {
+  let low: number = 0;
+  let high: number = classes.length;
+  while (low < high) {
+    const mid: number = Math.floor((low + high) / 2);
+    if (classes[mid].classNode.start! <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low > 0 ? classes[low - 1] : undefined;
+}
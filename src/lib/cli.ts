@@ -0,0 +1,251 @@
+import assert from "assert";
+import fs from "fs";
+import minimatch from "minimatch";
+import sysPath from "path";
+import yargs from "yargs";
+import { istanbulizeCoverageDir, istanbulizeCoverageFile, IstanbulizeProcessOptions } from "./process";
+import { toCobertura, toLcov, toTextSummary } from "./reports";
+import { IstanbulFileCoverageData } from "./types";
+
+export type OutputFormat = "nyc" | "json" | "lcov" | "cobertura" | "text-summary";
+
+export interface CliConfig {
+  /**
+   * Path of the `NODE_V8_COVERAGE` directory or V8 coverage file.
+   */
+  input: string;
+  format: OutputFormat;
+
+  /**
+   * Path of the output file, defaults to a path depending on the format
+   * (standard output for `text-summary`).
+   */
+  output?: string;
+  include: ReadonlyArray<string>;
+  exclude: ReadonlyArray<string>;
+
+  /**
+   * Add the line counts computed from the V8 block ranges.
+   */
+  lines: boolean;
+
+  /**
+   * Directory used to resolve the globs and relativize the paths of the report.
+   */
+  cwd?: string;
+}
+
+export interface MessageAction {
+  action: "message";
+  message: string;
+  error?: Error;
+}
+
+export interface RunAction {
+  action: "run";
+  config: CliConfig;
+}
+
+export type CliAction = MessageAction | RunAction;
+
+/**
+ * Options parsed by `ARG_PARSER`.
+ */
+interface ParsedOptions {
+  format: OutputFormat;
+  output: string | undefined;
+  include: Array<string | number>;
+  exclude: Array<string | number>;
+  lines: boolean;
+  cwd: string | undefined;
+}
+
+/**
+ * Arguments of the `ARG_PARSER.parse` callback.
+ */
+interface ParseResult {
+  err: Error | undefined | null;
+  parsed: yargs.Arguments<ParsedOptions>;
+  output: string;
+}
+
+/**
+ * Default output paths, `undefined` for the standard output.
+ */
+const DEFAULT_OUTPUTS: Readonly<Record<OutputFormat, string | undefined>> = Object.freeze({
+  "nyc": sysPath.join(".nyc_output", "istanbulize.json"),
+  "json": sysPath.join("coverage", "coverage-final.json"),
+  "lcov": sysPath.join("coverage", "lcov.info"),
+  "cobertura": sysPath.join("coverage", "cobertura-coverage.xml"),
+  "text-summary": undefined,
+});
+
+// Pure instance: the arguments are provided to `parse`
+const ARG_PARSER: yargs.Argv = yargs([]);
+
+ARG_PARSER
+  .scriptName("istanbulize")
+  .usage("$0 [opts] <input>")
+  .locale("en")
+  .option("format", {
+    alias: "f",
+    choices: ["nyc", "json", "lcov", "cobertura", "text-summary"],
+    default: "nyc",
+    describe: "output format: a `.nyc_output` file, a single `coverage-final.json`, `lcov.info`, Cobertura XML"
+      + " or a summary printed to the standard output",
+  })
+  .option("output", {
+    alias: "o",
+    type: "string",
+    describe: "path of the output file",
+  })
+  .option("include", {
+    alias: "i",
+    type: "array",
+    default: ["**"],
+    describe: "glob patterns of the files to include",
+  })
+  .option("exclude", {
+    alias: "x",
+    type: "array",
+    default: ["**/node_modules/**"],
+    describe: "glob patterns of the files to exclude",
+  })
+  .option("lines", {
+    type: "boolean",
+    default: false,
+    describe: "add line counts computed from the V8 block ranges",
+  })
+  .option("cwd", {
+    type: "string",
+    describe: "directory used to resolve the globs and relativize the paths",
+  })
+  .demandCommand(1, 1)
+  .epilog("<input> is a `NODE_V8_COVERAGE` directory or a V8 coverage JSON file");
+
+/**
+ * Executes the istanbulize CLI
+ *
+ * @param args CLI arguments
+ * @param cwd Current working directory
+ * @param proc Current process
+ */
+export async function execCli(args: string[], cwd: string, proc: NodeJS.Process): Promise<number> {
+  const action: CliAction = parseArgs(args);
+
+  if (action.action === "message") {
+    proc.stderr.write(Buffer.from(action.message));
+    return action.error === undefined ? 0 : 1;
+  }
+  return execRunAction(action, cwd, proc);
+}
+
+async function execRunAction({config}: RunAction, cwd: string, proc: NodeJS.Process): Promise<number> {
+  const baseDir: string = config.cwd !== undefined ? sysPath.resolve(cwd, config.cwd) : cwd;
+  const input: string = sysPath.resolve(cwd, config.input);
+  const outputPath: string | undefined = config.output !== undefined ? config.output : DEFAULT_OUTPUTS[config.format];
+  const output: string | undefined = outputPath !== undefined ? sysPath.resolve(baseDir, outputPath) : undefined;
+
+  let failed: boolean = false;
+  const options: IstanbulizeProcessOptions = {
+    lines: config.lines,
+    filter(path: string): boolean {
+      const relPath: string = toPosixRelative(baseDir, path);
+      return config.include.some((pattern: string) => minimatch(relPath, pattern, {dot: true}))
+        && !config.exclude.some((pattern: string) => minimatch(relPath, pattern, {dot: true}));
+    },
+    onError(path: string, error: Error): void {
+      failed = true;
+      proc.stderr.write(Buffer.from(`Failed to convert ${path}: ${error.message}\n`));
+    },
+  };
+
+  let coverageMap: Record<string, IstanbulFileCoverageData>;
+  try {
+    const isDir: boolean = (await fs.promises.stat(input)).isDirectory();
+    coverageMap = isDir
+      ? await istanbulizeCoverageDir(input, options)
+      : await istanbulizeCoverageFile(input, options);
+  } catch (err) {
+    proc.stderr.write(Buffer.from(`${err.toString()}\n`));
+    return 1;
+  }
+
+  const relativeMap: Record<string, IstanbulFileCoverageData> = Object.create(null);
+  for (const fileCov of Object.values(coverageMap)) {
+    const path: string = sysPath.relative(baseDir, fileCov.path);
+    relativeMap[path] = {...fileCov, path};
+  }
+
+  const report: string = formatReport(config.format, relativeMap, baseDir);
+  if (output === undefined) {
+    proc.stdout.write(Buffer.from(report));
+    return failed ? 1 : 0;
+  }
+  try {
+    await fs.promises.mkdir(sysPath.dirname(output), {recursive: true});
+    await fs.promises.writeFile(output, report, {encoding: "UTF-8"});
+  } catch (err) {
+    proc.stderr.write(Buffer.from(`${err.toString()}\n`));
+    return 1;
+  }
+  return failed ? 1 : 0;
+}
+
+export function parseArgs(args: string[]): CliAction {
+  // The yargs pure API requires a callback and reports its result in a strange way:
+  // `err` is `null` if the args were successfully parsed, `undefined` if yargs
+  // handled them itself (e.g. `--help`) and an `Error` if they are invalid.
+  // In the last two cases, `output` is intended to be written to stderr and
+  // `parsed` should be ignored.
+  const results: ParseResult[] = [];
+  ARG_PARSER.parse(
+    args,
+    (err: Error | undefined | null, parsed: yargs.Arguments<ParsedOptions>, output: string): void => {
+      results.push({err, parsed, output});
+    },
+  );
+  assert(results.length === 1);
+  const {err, parsed, output} = results[0];
+  if (err === null) {
+    // Successfully parsed
+    return {
+      action: "run",
+      config: {
+        input: String(parsed._[0]),
+        format: parsed.format,
+        output: parsed.output,
+        include: parsed.include.map(String),
+        exclude: parsed.exclude.map(String),
+        lines: parsed.lines,
+        cwd: parsed.cwd,
+      },
+    };
+  } else {
+    return {action: "message", message: output, error: err};
+  }
+}
+
+function formatReport(
+  format: OutputFormat,
+  coverageMap: Record<string, IstanbulFileCoverageData>,
+  baseDir: string,
+): string {
+  switch (format) {
+    case "nyc":
+    case "json":
+      return `${JSON.stringify(coverageMap, null, 2)}\n`;
+    case "lcov":
+      return toLcov(coverageMap);
+    case "cobertura":
+      return toCobertura(coverageMap, {sourceRoot: baseDir});
+    case "text-summary":
+      return toTextSummary(coverageMap);
+    default:
+      throw new Error(`AssertionError: Unexpected \`format\`: ${format}`);
+  }
+}
+
+function toPosixRelative(from: string, to: string): string {
+  return sysPath.relative(from, to).split(sysPath.sep).join("/");
+}
@@ -0,0 +1,127 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import { getSourceTextHash, IstambulizeScript, IstambulizeScriptOptions } from "./istanbulize";
+import { SourceType } from "./source-type";
+import { IstanbulFileCoverageData } from "./types";
+import { detectWrapper, unwrapScriptCov, WrapperLike, WrapperPreset } from "./wrapper";
+
+export interface IstambulizeCollectionOptions
+  extends Pick<IstambulizeScriptOptions, "parser" | "stableKeys" | "lines" | "subStatements" | "strict"> {
+  /**
+   * Source type of the scripts.
+   *
+   * Default: `auto`
+   */
+  sourceType?: SourceType;
+
+  /**
+   * Wrappers to detect around the source texts, in order.
+   *
+   * Default: `vm.compileFunction`, `node-cjs` and `jest`.
+   */
+  wrappers?: ReadonlyArray<WrapperLike | WrapperPreset>;
+
+  /**
+   * Called when a script coverage is rejected because its V8 root range does
+   * not match the source text, or fails to convert.
+   *
+   * By default, the error is thrown.
+   */
+  onError?(url: string, error: Error): void;
+}
+
+/**
+ * Accumulates the coverage of many scripts, for example modules evaluated
+ * several times.
+ *
+ * There is one `IstambulizeScript` for each URL and source text: the counts
+ * of the script coverages with the same URL and source text are summed, even
+ * if they were compiled with different wrappers. A script coverage is only
+ * added if the length of its root range matches the source text with one of
+ * the wrappers.
+ */
+export class IstambulizeCollection {
+  private readonly options: Readonly<IstambulizeCollectionOptions>;
+
+  /**
+   * Scripts keyed by URL, then by source text hash.
+   */
+  private readonly scripts: Map<string, Map<string, IstambulizeScript>>;
+
+  public constructor(options: Readonly<IstambulizeCollectionOptions> = {}) {
+    this.options = options;
+    this.scripts = new Map();
+  }
+
+  /**
+   * Adds a script coverage to the script with the same URL and source text.
+   *
+   * @param scriptCov V8 coverage of the script, possibly wrapped.
+   * @param sourceText Source text of the script, without its wrapper.
+   * @param testId ID of the test that produced this coverage (see `IstambulizeScript#getTests`).
+   * @return `false` if the script coverage was rejected and reported to `onError`.
+   */
+  public add(scriptCov: ScriptCov, sourceText: string, testId?: string): boolean {
+    try {
+      const [prefixLen, suffixLen] = detectWrapper(scriptCov, sourceText, this.options.wrappers);
+      const unwrapped: ScriptCov = prefixLen === 0 && suffixLen === 0
+        ? scriptCov
+        : unwrapScriptCov(scriptCov, [prefixLen, suffixLen]);
+      const hash: string = getSourceTextHash(sourceText);
+      const script: IstambulizeScript = this.getScript(scriptCov.url, hash, sourceText);
+      script.add(unwrapped, testId);
+      // Only register the script once a coverage was added
+      let byHash: Map<string, IstambulizeScript> | undefined = this.scripts.get(scriptCov.url);
+      if (byHash === undefined) {
+        byHash = new Map();
+        this.scripts.set(scriptCov.url, byHash);
+      }
+      byHash.set(hash, script);
+    } catch (err) {
+      if (this.options.onError === undefined) {
+        throw err;
+      }
+      this.options.onError(scriptCov.url, err);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Returns the scripts grouped by URL, in the order they were first added.
+   */
+  public getScripts(): ReadonlyArray<IstambulizeScript> {
+    const result: IstambulizeScript[] = [];
+    for (const byHash of this.scripts.values()) {
+      result.push(...byHash.values());
+    }
+    return result;
+  }
+
+  /**
+   * Returns the coverage data of each script, in the order of `getScripts`.
+   *
+   * The results include the hash of the source text: a URL has several
+   * results if it was evaluated with different source texts.
+   */
+  public toIstanbul(): IstanbulFileCoverageData[] {
+    return this.getScripts().map((script: IstambulizeScript) => script.toIstanbul());
+  }
+
+  /**
+   * Returns the script with the provided URL and source text, or a new unregistered script.
+   */
+  private getScript(url: string, hash: string, sourceText: string): IstambulizeScript {
+    const byHash: Map<string, IstambulizeScript> | undefined = this.scripts.get(url);
+    const script: IstambulizeScript | undefined = byHash !== undefined ? byHash.get(hash) : undefined;
+    if (script !== undefined) {
+      return script;
+    }
+    return new IstambulizeScript({
+      ...this.options,
+      sourceText,
+      sourceType: this.options.sourceType !== undefined ? this.options.sourceType : SourceType.Auto,
+      url,
+      hash: true,
+    });
+  }
+}
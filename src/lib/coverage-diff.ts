@@ -0,0 +1,394 @@
+import { SourceLocation } from "@babel/types";
+import sysPath from "path";
+import {
+  CoverageCounts,
+  CoverageMetric,
+  CoverageSummary,
+  getFileLineCounts,
+  getFileSummary,
+  sumSummaries,
+  toCounts,
+} from "./summary";
+import { IstanbulFileCoverageData } from "./types";
+import { FileDiff, mapDiffLine, parseUnifiedDiff } from "./unified-diff";
+
+export enum CoverageItemType {
+  Statement = "statement",
+  Function = "function",
+  Branch = "branch",
+}
+
+/**
+ * Item not executed in the head run that was executed in the base run, or
+ * did not exist.
+ */
+export interface UncoveredItem {
+  path: string;
+  type: CoverageItemType;
+
+  /**
+   * Key of the item in the head coverage data (`s0`, `f0`, `b0`...).
+   */
+  key: string;
+
+  /**
+   * Location in the head file, the location of the arm for branches.
+   */
+  loc: SourceLocation;
+
+  /**
+   * Name of the function, for functions.
+   */
+  name?: string;
+
+  /**
+   * Index of the arm, for branches.
+   */
+  arm?: number;
+}
+
+/**
+ * Difference of percentages of each metric (head - base).
+ */
+export type CoverageDelta = Record<CoverageMetric, number>;
+
+export interface FileCoverageDiff {
+  /**
+   * Path in the head run, or in the base run for deleted files.
+   */
+  path: string;
+
+  /**
+   * `undefined` for added files.
+   */
+  base?: CoverageSummary;
+
+  /**
+   * `undefined` for deleted files.
+   */
+  head?: CoverageSummary;
+
+  /**
+   * `undefined` for added or deleted files.
+   */
+  delta?: CoverageDelta;
+
+  /**
+   * Coverage of the added lines, for files in the diff.
+   */
+  patch?: CoverageCounts;
+}
+
+export interface CoverageDiff {
+  base: CoverageSummary;
+  head: CoverageSummary;
+  delta: CoverageDelta;
+
+  /**
+   * Coverage of the added lines, if a diff was provided.
+   */
+  patch?: CoverageCounts;
+
+  /**
+   * Changed files, sorted by path.
+   */
+  files: FileCoverageDiff[];
+
+  /**
+   * Sorted by path and location.
+   */
+  newlyUncovered: UncoveredItem[];
+}
+
+export interface CoverageDiffOptions {
+  /**
+   * Unified diff from the base to the head sources (for example `git diff base...head`).
+   *
+   * It is used to match the items of lines moved by the changes, and to compute
+   * the patch coverage. The paths of the diff are matched to the end of the
+   * paths of the coverage data.
+   */
+  diff?: string;
+}
+
+/**
+ * Counts of the items of a base file, keyed by location.
+ */
+interface BaseItems {
+  counts: Map<string, number>;
+  branchCounts: Map<string, number[]>;
+}
+
+const METRIC_TITLES: ReadonlyArray<[CoverageMetric, string]> = [
+  [CoverageMetric.Statements, "Statements"],
+  [CoverageMetric.Branches, "Branches"],
+  [CoverageMetric.Functions, "Functions"],
+  [CoverageMetric.Lines, "Lines"],
+];
+
+/**
+ * Compares the coverage of two runs, for example the base and head of a pull request.
+ *
+ * The items are matched by type and location, not by key. Without a diff,
+ * items whose lines moved are considered new.
+ *
+ * @param base Coverage data of the base run, keyed by path.
+ * @param head Coverage data of the head run, keyed by path.
+ * @param options Unified diff between the runs.
+ */
+export function diffCoverage(
+  base: Readonly<Record<string, IstanbulFileCoverageData>>,
+  head: Readonly<Record<string, IstanbulFileCoverageData>>,
+  options: Readonly<CoverageDiffOptions> = {},
+): CoverageDiff {
+  const fileDiffs: FileDiff[] | undefined = options.diff !== undefined ? parseUnifiedDiff(options.diff) : undefined;
+  const files: FileCoverageDiff[] = [];
+  const newlyUncovered: UncoveredItem[] = [];
+  const usedBasePaths: Set<string> = new Set();
+  const patches: CoverageCounts[] = [];
+
+  for (const headPath of Object.keys(head).sort()) {
+    const headCov: IstanbulFileCoverageData = head[headPath];
+    const fileDiff: FileDiff | undefined = fileDiffs !== undefined
+      ? fileDiffs.find(({newPath}: FileDiff) => newPath !== undefined && matchesDiffPath(headPath, newPath))
+      : undefined;
+    let basePath: string | undefined;
+    if (fileDiff === undefined) {
+      basePath = headPath in base ? headPath : undefined;
+    } else if (fileDiff.oldPath !== undefined) {
+      basePath = Object.keys(base).find((path: string) => matchesDiffPath(path, fileDiff.oldPath!));
+    }
+    const baseCov: IstanbulFileCoverageData | undefined = basePath !== undefined ? base[basePath] : undefined;
+    if (basePath !== undefined) {
+      usedBasePaths.add(basePath);
+    }
+
+    const mapLine = (line: number): number | undefined => fileDiff !== undefined ? mapDiffLine(fileDiff, line) : line;
+    const fileUncovered: UncoveredItem[] = getNewlyUncovered(
+      headPath,
+      headCov,
+      baseCov !== undefined ? getBaseItems(baseCov, mapLine) : undefined,
+    );
+    newlyUncovered.push(...fileUncovered);
+
+    const headSummary: CoverageSummary = getFileSummary(headCov);
+    const baseSummary: CoverageSummary | undefined = baseCov !== undefined ? getFileSummary(baseCov) : undefined;
+    const delta: CoverageDelta | undefined = baseSummary !== undefined ? getDelta(baseSummary, headSummary) : undefined;
+    const patch: CoverageCounts | undefined = fileDiff !== undefined ? getPatch(headCov, fileDiff) : undefined;
+    if (patch !== undefined) {
+      patches.push(patch);
+    }
+    const changed: boolean = delta === undefined
+      || Object.values(delta).some((value: number) => value !== 0)
+      || fileUncovered.length > 0
+      || (patch !== undefined && patch.total > 0);
+    if (changed) {
+      files.push({path: headPath, base: baseSummary, head: headSummary, delta, patch});
+    }
+  }
+
+  for (const basePath of Object.keys(base).sort()) {
+    if (!usedBasePaths.has(basePath)) {
+      files.push({path: basePath, base: getFileSummary(base[basePath])});
+    }
+  }
+  files.sort((a: FileCoverageDiff, b: FileCoverageDiff) => a.path === b.path ? 0 : (a.path < b.path ? -1 : 1));
+
+  const baseTotal: CoverageSummary = sumSummaries(Object.values(base).map(getFileSummary));
+  const headTotal: CoverageSummary = sumSummaries(Object.values(head).map(getFileSummary));
+  const result: CoverageDiff = {
+    base: baseTotal,
+    head: headTotal,
+    delta: getDelta(baseTotal, headTotal),
+    files,
+    newlyUncovered,
+  };
+  if (fileDiffs !== undefined) {
+    result.patch = toCounts(
+      patches.reduce((sum: number, {total}: CoverageCounts) => sum + total, 0),
+      patches.reduce((sum: number, {covered}: CoverageCounts) => sum + covered, 0),
+    );
+  }
+  return result;
+}
+
+/**
+ * Formats a coverage diff as Markdown, for example for a pull request comment.
+ */
+export function toDiffMarkdown(diff: Readonly<CoverageDiff>): string {
+  const lines: string[] = [
+    "## Coverage diff",
+    "",
+    "| Metric | Base | Head | Delta |",
+    "| --- | ---: | ---: | ---: |",
+  ];
+  for (const [metric, title] of METRIC_TITLES) {
+    lines.push(`| ${title} | ${diff.base[metric].pct}% | ${diff.head[metric].pct}% | ${formatDelta(diff.delta[metric])} |`);
+  }
+  if (diff.patch !== undefined) {
+    lines.push("", `**Patch coverage:** ${formatCounts(diff.patch)} of the added lines`);
+  }
+  if (diff.files.length > 0) {
+    lines.push(
+      "",
+      "### Files",
+      "",
+      `| File | ${METRIC_TITLES.map(([, title]: [CoverageMetric, string]) => title).join(" | ")} | Patch |`,
+      `| --- |${" ---: |".repeat(METRIC_TITLES.length + 1)}`,
+    );
+    for (const file of diff.files) {
+      const cells: string[] = METRIC_TITLES.map(([metric]: [CoverageMetric, string]) => {
+        if (file.head === undefined) {
+          return "deleted";
+        }
+        const pct: string = `${file.head[metric].pct}%`;
+        return file.delta !== undefined ? `${pct} (${formatDelta(file.delta[metric])})` : `${pct} (new)`;
+      });
+      const patch: string = file.patch !== undefined && file.patch.total > 0 ? formatCounts(file.patch) : "";
+      lines.push(`| \`${file.path}\` | ${cells.join(" | ")} | ${patch} |`);
+    }
+  }
+  if (diff.newlyUncovered.length > 0) {
+    lines.push("", "### Newly uncovered", "");
+    for (const item of diff.newlyUncovered) {
+      const position: string = `${item.path}:${item.loc.start.line}:${item.loc.start.column + 1}`;
+      let description: string = item.type;
+      if (item.name !== undefined) {
+        description += item.name !== "" ? ` \`${item.name}\`` : " (anonymous)";
+      }
+      if (item.arm !== undefined) {
+        description += ` (arm ${item.arm})`;
+      }
+      lines.push(`- \`${position}\` ${description}`);
+    }
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Indexes the counts of a base file by location in the head file.
+ *
+ * Items on deleted lines are skipped.
+ */
+function getBaseItems(baseCov: IstanbulFileCoverageData, mapLine: (line: number) => number | undefined): BaseItems {
+  const counts: Map<string, number> = new Map();
+  const branchCounts: Map<string, number[]> = new Map();
+  for (const [key, loc] of Object.entries(baseCov.statementMap)) {
+    const locKey: string | undefined = getLocKey(loc, mapLine);
+    if (locKey !== undefined) {
+      counts.set(`${CoverageItemType.Statement}@${locKey}`, baseCov.s[key]);
+    }
+  }
+  for (const [key, fn] of Object.entries(baseCov.fnMap)) {
+    const locKey: string | undefined = getLocKey(fn.loc, mapLine);
+    if (locKey !== undefined) {
+      counts.set(`${CoverageItemType.Function}@${locKey}`, baseCov.f[key]);
+    }
+  }
+  for (const [key, branch] of Object.entries(baseCov.branchMap)) {
+    const locKey: string | undefined = getLocKey(branch.loc, mapLine);
+    if (locKey !== undefined) {
+      branchCounts.set(`${branch.type}@${locKey}`, baseCov.b[key]);
+    }
+  }
+  return {counts, branchCounts};
+}
+
+/**
+ * Returns the items of a head file that are not covered, but were covered or
+ * did not exist in the base file.
+ */
+function getNewlyUncovered(
+  path: string,
+  headCov: IstanbulFileCoverageData,
+  baseItems: BaseItems | undefined,
+): UncoveredItem[] {
+  const identity = (line: number): number => line;
+  const isNew = (itemKey: string): boolean => {
+    const count: number | undefined = baseItems !== undefined ? baseItems.counts.get(itemKey) : undefined;
+    return count === undefined || count > 0;
+  };
+  const result: UncoveredItem[] = [];
+  for (const [key, loc] of Object.entries(headCov.statementMap)) {
+    if (headCov.s[key] === 0 && isNew(`${CoverageItemType.Statement}@${getLocKey(loc, identity)}`)) {
+      result.push({path, type: CoverageItemType.Statement, key, loc});
+    }
+  }
+  for (const [key, fn] of Object.entries(headCov.fnMap)) {
+    if (headCov.f[key] === 0 && isNew(`${CoverageItemType.Function}@${getLocKey(fn.loc, identity)}`)) {
+      result.push({path, type: CoverageItemType.Function, key, loc: fn.loc, name: fn.name});
+    }
+  }
+  for (const [key, branch] of Object.entries(headCov.branchMap)) {
+    const counts: number[] = headCov.b[key];
+    const baseCounts: number[] | undefined = baseItems !== undefined
+      ? baseItems.branchCounts.get(`${branch.type}@${getLocKey(branch.loc, identity)}`)
+      : undefined;
+    counts.forEach((count: number, arm: number) => {
+      const isNewArm: boolean = baseCounts === undefined || baseCounts.length !== counts.length || baseCounts[arm] > 0;
+      if (count === 0 && isNewArm) {
+        const loc: SourceLocation = branch.locations[arm] !== undefined ? branch.locations[arm] : branch.loc;
+        result.push({path, type: CoverageItemType.Branch, key, loc, arm});
+      }
+    });
+  }
+  return result.sort((a: UncoveredItem, b: UncoveredItem) => {
+    return a.loc.start.line - b.loc.start.line || a.loc.start.column - b.loc.start.column;
+  });
+}
+
+/**
+ * Returns the coverage of the added lines of a file.
+ */
+function getPatch(headCov: IstanbulFileCoverageData, fileDiff: FileDiff): CoverageCounts {
+  const lineCounts: Record<number, number> = getFileLineCounts(headCov);
+  let total: number = 0;
+  let covered: number = 0;
+  for (const line of fileDiff.addedLines) {
+    const count: number | undefined = lineCounts[line];
+    if (count !== undefined) {
+      total++;
+      if (count > 0) {
+        covered++;
+      }
+    }
+  }
+  return toCounts(total, covered);
+}
+
+function getDelta(base: CoverageSummary, head: CoverageSummary): CoverageDelta {
+  const result: Partial<CoverageDelta> = {};
+  for (const [metric] of METRIC_TITLES) {
+    result[metric] = Math.round((head[metric].pct - base[metric].pct) * 100) / 100;
+  }
+  return result as CoverageDelta;
+}
+
+/**
+ * Returns a key for the location, with its lines mapped, or `undefined` if a line was deleted.
+ */
+function getLocKey({start, end}: SourceLocation, mapLine: (line: number) => number | undefined): string | undefined {
+  const startLine: number | undefined = mapLine(start.line);
+  const endLine: number | undefined = mapLine(end.line);
+  if (startLine === undefined || endLine === undefined) {
+    return undefined;
+  }
+  return `${startLine}:${start.column}-${endLine}:${end.column}`;
+}
+
+/**
+ * Tests if a path of the coverage data is the path of a diff, relative to the repository.
+ */
+function matchesDiffPath(path: string, diffPath: string): boolean {
+  const posixPath: string = path.split(sysPath.sep).join("/");
+  return posixPath === diffPath || posixPath.endsWith(`/${diffPath}`);
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : (delta < 0 ? `${delta}` : "±0");
+}
+
+function formatCounts(counts: CoverageCounts): string {
+  return `${counts.pct}% (${counts.covered}/${counts.total})`;
+}
@@ -0,0 +1,66 @@
+import { SourceLocation } from "@babel/types";
+
+export enum DiagnosticType {
+  /**
+   * A V8 function does not match any function of the AST.
+   */
+  UnmatchedFunctionCov = "unmatched-function-cov",
+
+  /**
+   * A function of the AST does not match any V8 function.
+   *
+   * Each function is reported once, and only if its enclosing function ran:
+   * V8 does not compile the functions nested inside a function that was never
+   * called.
+   */
+  UnmatchedFunctionNode = "unmatched-function-node",
+
+  /**
+   * The enclosing function of a statement has no V8 coverage, its count is
+   * left unchanged.
+   */
+  UncoveredStatement = "uncovered-statement",
+}
+
+export interface UnmatchedFunctionCovDiagnostic {
+  type: DiagnosticType.UnmatchedFunctionCov;
+
+  /**
+   * URL of the script coverage.
+   */
+  url: string;
+  functionName: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface UnmatchedFunctionNodeDiagnostic {
+  type: DiagnosticType.UnmatchedFunctionNode;
+
+  /**
+   * URL of the script coverage.
+   */
+  url: string;
+
+  /**
+   * Name of the function, empty for anonymous functions and the script itself.
+   */
+  name: string;
+  startOffset: number;
+  endOffset: number;
+  loc: SourceLocation;
+}
+
+export interface UncoveredStatementDiagnostic {
+  type: DiagnosticType.UncoveredStatement;
+
+  /**
+   * URL of the script coverage.
+   */
+  url: string;
+  startOffset: number;
+  endOffset: number;
+  loc: SourceLocation;
+}
+
+export type Diagnostic = UnmatchedFunctionCovDiagnostic | UnmatchedFunctionNodeDiagnostic | UncoveredStatementDiagnostic;
@@ -0,0 +1,206 @@
+import { Function as FunctionNode, isClass, Node, SourceLocation, TraversalAncestors } from "@babel/types";
+
+/**
+ * Whitespace and comments.
+ */
+const TRIVIA: RegExp = /(?:\s|\/\/.*|\/\*[\s\S]*?\*\/)*/y;
+
+/**
+ * Metadata of a function inferred from the AST.
+ */
+export interface FunctionInfo {
+  /**
+   * Name of the function, empty if it cannot be inferred.
+   *
+   * Class members are qualified by the name of their class (`Foo.bar`), and
+   * accessors are prefixed by their kind (`get Foo.bar`).
+   */
+  name: string;
+
+  /**
+   * Location of the declaration: identifier or key of the function.
+   *
+   * Falls back to the first character of the function (as Istanbul does).
+   */
+  decl: SourceLocation;
+
+  /**
+   * The function is a class member: the inferred name is more precise than
+   * the name reported by V8.
+   */
+  isClassMember: boolean;
+}
+
+/**
+ * Infers the name and declaration location of a function.
+ *
+ * @param node Function node.
+ * @param ancestors Ancestors of the function node, from the root.
+ */
+export function getFunctionInfo(node: FunctionNode, ancestors: TraversalAncestors): FunctionInfo {
+  const parent: Node = getAncestor(ancestors, 0)!;
+
+  switch (node.type) {
+    case "ClassMethod":
+    case "ClassPrivateMethod": {
+      // Parent is the `ClassBody`
+      const className: string = getClassName(getAncestor(ancestors, 1)!, getAncestor(ancestors, 2));
+      const memberName: string = node.kind === "constructor" ? className : `${className}.${getKeyName(node.key)}`;
+      return {name: withKind(node.kind, memberName), decl: getLoc(node.key), isClassMember: true};
+    }
+    case "ObjectMethod":
+      return {name: withKind(node.kind, getKeyName(node.key)), decl: getLoc(node.key), isClassMember: false};
+    case "FunctionDeclaration":
+    case "FunctionExpression":
+      if (node.id !== null && node.id !== undefined) {
+        return {name: node.id.name, decl: getLoc(node.id), isClassMember: false};
+      }
+      break;
+    default:
+      break;
+  }
+
+  switch (parent.type) {
+    case "ClassProperty":
+    case "ClassPrivateProperty":
+      if (parent.value === node) {
+        const className: string = getClassName(getAncestor(ancestors, 2)!, getAncestor(ancestors, 3));
+        return {name: `${className}.${getKeyName(parent.key)}`, decl: getLoc(parent.key), isClassMember: true};
+      }
+      break;
+    case "ObjectProperty":
+      if (parent.value === node) {
+        return {name: getKeyName(parent.key), decl: getLoc(parent.key), isClassMember: false};
+      }
+      break;
+    case "VariableDeclarator":
+      if (parent.init === node && parent.id.type === "Identifier") {
+        return {name: parent.id.name, decl: getLoc(parent.id), isClassMember: false};
+      }
+      break;
+    case "AssignmentExpression":
+      if (parent.right === node) {
+        return {name: getTargetName(parent.left), decl: getLoc(parent.left), isClassMember: false};
+      }
+      break;
+    case "AssignmentPattern":
+      if (parent.right === node) {
+        return {name: getTargetName(parent.left), decl: getLoc(parent.left), isClassMember: false};
+      }
+      break;
+    case "ExportDefaultDeclaration":
+      return {name: "default", decl: getFirstCharLoc(node), isClassMember: false};
+    default:
+      break;
+  }
+
+  return {name: "", decl: getFirstCharLoc(node), isClassMember: false};
+}
+
+/**
+ * Returns the `depth`-th ancestor, `0` is the parent.
+ */
+function getAncestor(ancestors: TraversalAncestors, depth: number): Node | undefined {
+  const index: number = ancestors.length - 1 - depth;
+  return index >= 0 ? ancestors[index].node : undefined;
+}
+
+function withKind(kind: string, name: string): string {
+  return kind === "get" || kind === "set" ? `${kind} ${name}` : name;
+}
+
+/**
+ * Returns the name of a class (`ClassDeclaration` or `ClassExpression`).
+ */
+function getClassName(classNode: Node, parent: Node | undefined): string {
+  if (isClass(classNode) && classNode.id !== null && classNode.id !== undefined) {
+    return classNode.id.name;
+  }
+  if (parent === undefined) {
+    return "";
+  } else if (parent.type === "VariableDeclarator" && parent.id.type === "Identifier") {
+    return parent.id.name;
+  } else if (parent.type === "AssignmentExpression") {
+    return getTargetName(parent.left);
+  }
+  return "";
+}
+
+function getKeyName(key: Node): string {
+  switch (key.type) {
+    case "Identifier":
+      return key.name;
+    case "PrivateName":
+      return `#${key.id.name}`;
+    case "StringLiteral":
+      return key.value;
+    case "NumericLiteral":
+      return String(key.value);
+    default:
+      return "";
+  }
+}
+
+/**
+ * Returns the name of an assignment target such as `foo`, `foo.bar` or `Foo.prototype.bar`.
+ */
+function getTargetName(target: Node): string {
+  switch (target.type) {
+    case "Identifier":
+      return target.name;
+    case "MemberExpression": {
+      const object: string = target.object.type === "ThisExpression" ? "this" : getTargetName(target.object);
+      const property: string = target.computed ? "" : getKeyName(target.property);
+      return object !== "" && property !== "" ? `${object}.${property}` : property;
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Returns the offset where V8 starts the range of a function.
+ *
+ * The range of a static method starts after the `static` keyword (at its
+ * `get`, `set`, `async` or `*` prefix, or at its key), while the node starts
+ * at the keyword.
+ *
+ * @param sourceText Source text of the script.
+ * @param node Function or program node.
+ */
+export function getFunctionStart(sourceText: string, node: Node): number {
+  const start: number = node.start!;
+  if ((node.type !== "ClassMethod" && node.type !== "ClassPrivateMethod") || !node.static) {
+    return start;
+  }
+  const keyword: number = skipTrivia(sourceText, start);
+  return sourceText.startsWith("static", keyword) ? skipTrivia(sourceText, keyword + "static".length) : start;
+}
+
+/**
+ * Returns a copy of the location of the node, without the Babel-specific
+ * fields (`index`, `filename` and `identifierName`).
+ */
+export function getLoc(node: Node): SourceLocation {
+  // assert loc is defined
+  const {start, end} = node.loc!;
+  return {
+    start: {line: start.line, column: start.column},
+    end: {line: end.line, column: end.column},
+  };
+}
+
+function getFirstCharLoc(node: Node): SourceLocation {
+  // assert loc is defined
+  const {start} = node.loc!;
+  return {
+    start: {line: start.line, column: start.column},
+    end: {line: start.line, column: start.column + 1},
+  };
+}
+
+function skipTrivia(sourceText: string, offset: number): number {
+  TRIVIA.lastIndex = offset;
+  TRIVIA.exec(sourceText);
+  return TRIVIA.lastIndex;
+}
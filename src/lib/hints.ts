@@ -0,0 +1,93 @@
+import { Comment, Node, SourceLocation } from "@babel/types";
+
+/**
+ * Istanbul hint attached to a node through a leading comment.
+ *
+ * @see https://github.com/istanbuljs/nyc#parsing-hints-ignoring-lines
+ */
+export type IstanbulHint = "if" | "else" | "next";
+
+const ISTANBUL_HINT: RegExp = /^\s*istanbul\s+ignore\s+(if|else|next)(?=\W|$)/;
+const ISTANBUL_IGNORE_FILE: RegExp = /^\s*istanbul\s+ignore\s+file(?=\W|$)/;
+
+// The c8 hints are `/* */` block comments or `//` line comments
+const C8_IGNORE_NEXT_LINES: RegExp = /^\W*(?:\/\*|\/\/) c8 ignore next (\d+)/;
+const C8_IGNORE_NEXT_OWN_LINE: RegExp = /^\W*(?:\/\*|\/\/) c8 ignore next/;
+const C8_IGNORE_NEXT: RegExp = /(?:\/\*|\/\/) c8 ignore next/;
+const C8_IGNORE_START_STOP: RegExp = /(?:\/\*|\/\/) c8 ignore (start|stop)/;
+
+/**
+ * Returns the Istanbul hint of the node, the last matching leading comment wins.
+ */
+export function getIstanbulHint(node: Node): IstanbulHint | undefined {
+  let hint: IstanbulHint | undefined;
+  if (node.leadingComments !== null && node.leadingComments !== undefined) {
+    for (const comment of node.leadingComments) {
+      const match: RegExpExecArray | null = ISTANBUL_HINT.exec(comment.value.trim());
+      if (match !== null) {
+        hint = match[1] as IstanbulHint;
+      }
+    }
+  }
+  return hint;
+}
+
+/**
+ * Tests if one of the comments is an `istanbul ignore file` hint.
+ */
+export function hasIgnoreFileHint(comments: ReadonlyArray<Comment>): boolean {
+  return comments.some((comment: Comment) => ISTANBUL_IGNORE_FILE.test(comment.value.trim()));
+}
+
+/**
+ * Returns the 1-based indexes of the lines ignored by c8 hints.
+ *
+ * This follows c8: the line with the hint is ignored, `c8 ignore next N` also
+ * ignores the `N` following lines (1 if the hint is alone on its line), and
+ * `c8 ignore start`/`c8 ignore stop` ignore all the lines between them.
+ */
+export function getC8IgnoredLines(sourceText: string): Set<number> {
+  const ignored: Set<number> = new Set();
+  let ignoreCount: number = 0;
+  let ignoreAll: boolean = false;
+  for (const [i, lineText] of sourceText.split(/\r?\n/).entries()) {
+    const line: number = i + 1;
+    if (ignoreCount > 0) {
+      ignored.add(line);
+      ignoreCount--;
+    } else if (ignoreAll) {
+      ignored.add(line);
+    }
+    const nextLinesMatch: RegExpExecArray | null = C8_IGNORE_NEXT_LINES.exec(lineText);
+    const startStopMatch: RegExpExecArray | null = C8_IGNORE_START_STOP.exec(lineText);
+    if (nextLinesMatch !== null) {
+      ignored.add(line);
+      ignoreCount = parseInt(nextLinesMatch[1], 10);
+    } else if (C8_IGNORE_NEXT_OWN_LINE.test(lineText)) {
+      ignored.add(line);
+      ignoreCount = 1;
+    } else if (C8_IGNORE_NEXT.test(lineText)) {
+      ignored.add(line);
+    } else if (startStopMatch !== null) {
+      ignored.add(line);
+      ignoreAll = startStopMatch[1] === "start";
+      ignoreCount = 0;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Tests if all the lines of the location are ignored.
+ */
+export function isIgnoredLoc(ignoredLines: ReadonlySet<number>, loc: SourceLocation): boolean {
+  if (ignoredLines.size === 0) {
+    return false;
+  }
+  for (let line: number = loc.start.line; line <= loc.end.line; line++) {
+    if (!ignoredLines.has(line)) {
+      return false;
+    }
+  }
+  return true;
+}
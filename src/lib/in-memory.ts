@@ -0,0 +1,131 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import { Protocol } from "devtools-protocol";
+import { getSourceTextHash, IstambulizeScript } from "./istanbulize";
+import { SourceType } from "./source-type";
+import { IstanbulFileCoverageData } from "./types";
+import { detectWrapper, WrapperPreset } from "./wrapper";
+
+/**
+ * Source of a script that only exists in memory, for example compiled by
+ * `eval`, `new Function` or `vm.Script`.
+ */
+export interface InMemoryScript {
+  scriptId: string;
+
+  /**
+   * Source text of the script (`Debugger.getScriptSource`).
+   */
+  source: string;
+
+  /**
+   * Default: `false`
+   */
+  isModule?: boolean;
+}
+
+export interface IstanbulizeInMemoryOptions {
+  /**
+   * Add the hit counts of the lines computed from the V8 block ranges (`l` field).
+   *
+   * Default: `false`
+   */
+  lines?: boolean;
+
+  /**
+   * Returns the synthetic path of the scripts with the provided source text hash.
+   *
+   * Default: `anonymous/<hash>.js`
+   */
+  getPath?(hash: string): string;
+
+  /**
+   * Called when a script fails to convert, the script is then skipped.
+   *
+   * By default, the error is thrown.
+   */
+  onError?(scriptId: string, error: Error): void;
+}
+
+/**
+ * Coverage of the scripts sharing a source text.
+ */
+export interface InMemoryFileCoverage {
+  /**
+   * Source text of the scripts, the synthetic path does not exist on the disk.
+   */
+  sourceText: string;
+
+  fileCov: IstanbulFileCoverageData;
+}
+
+/**
+ * Converts the coverage of scripts without a file to Istanbul FileCoverage data objects.
+ *
+ * The coverage is matched to the sources by script ID, regardless of the URL of
+ * the scripts. Scripts with the same source text are converted together: their
+ * counts are summed across compilations and they are reported at a synthetic
+ * path derived from the hash of the source text. Coverage without a source is
+ * skipped.
+ *
+ * @param scriptCovs Coverage of the scripts.
+ * @param scripts Sources of the scripts, collected from the `Debugger.scriptParsed` events.
+ * @param options Synthetic paths and line counts.
+ * @return Coverage data and source text for each distinct source text, keyed by synthetic path.
+ */
+export function istanbulizeInMemoryCov(
+  scriptCovs: ReadonlyArray<ScriptCov | Protocol.Profiler.ScriptCoverage>,
+  scripts: ReadonlyArray<InMemoryScript>,
+  options: Readonly<IstanbulizeInMemoryOptions> = {},
+): Record<string, InMemoryFileCoverage> {
+  const getPath: (hash: string) => string = options.getPath !== undefined ? options.getPath : getAnonymousPath;
+  const sources: Map<string, InMemoryScript> = new Map();
+  for (const script of scripts) {
+    sources.set(script.scriptId, script);
+  }
+
+  // Scripts and source texts keyed by source text hash
+  const groups: Map<string, IstambulizeScript> = new Map();
+  const sourceTexts: Map<string, string> = new Map();
+  for (const scriptCov of scriptCovs) {
+    const script: InMemoryScript | undefined = sources.get(scriptCov.scriptId);
+    if (script === undefined) {
+      continue;
+    }
+    const hash: string = getSourceTextHash(script.source);
+    try {
+      // The source is the compiled text: this only checks that the coverage matches it
+      detectWrapper(scriptCov, script.source, [WrapperPreset.VmCompileFunction]);
+      const group: IstambulizeScript = groups.has(hash) ? groups.get(hash)! : new IstambulizeScript({
+        sourceText: script.source,
+        sourceType: script.isModule === true ? SourceType.Module : SourceType.Script,
+        url: scriptCov.url !== "" ? scriptCov.url : undefined,
+        hash: true,
+        lines: options.lines,
+      });
+      group.add(scriptCov as ScriptCov);
+      groups.set(hash, group);
+      sourceTexts.set(hash, script.source);
+    } catch (err) {
+      if (options.onError === undefined) {
+        throw err;
+      }
+      options.onError(scriptCov.scriptId, err);
+    }
+  }
+
+  const result: Record<string, InMemoryFileCoverage> = Object.create(null);
+  for (const [hash, group] of groups) {
+    const path: string = getPath(hash);
+    result[path] = {sourceText: sourceTexts.get(hash)!, fileCov: {...group.toIstanbul(), path}};
+  }
+  return result;
+}
+
+/**
+ * Returns the default synthetic path of the scripts with the provided source text hash.
+ *
+ * @param hash Hash of the source text (see `getSourceTextHash`).
+ */
+export function getAnonymousPath(hash: string): string {
+  return `anonymous/${hash}.js`;
+}
@@ -0,0 +1,1022 @@
+import {
+  Class,
+  ClassAccessorProperty,
+  ClassPrivateProperty,
+  ClassProperty,
+  ConditionalExpression,
+  Expression,
+  File,
+  Function as FunctionNode,
+  IfStatement,
+  isFunction,
+  isStatement as isStatementType,
+  LogicalExpression,
+  Node,
+  Program,
+  SourceLocation,
+  Statement,
+  SwitchStatement,
+  TraversalAncestors,
+  traverse,
+} from "@babel/types";
+import { FunctionCov, RangeCov, ScriptCov } from "@c88/v8-coverage";
+import crypto from "crypto";
+import { ClassInitializer, getClassInitializerRanges, matchClassInitializers } from "./class-initializers";
+import { Diagnostic, DiagnosticType } from "./diagnostics";
+import { FunctionInfo, getFunctionInfo, getFunctionStart, getLoc } from "./functions";
+import { getC8IgnoredLines, getIstanbulHint, hasIgnoreFileHint, isIgnoredLoc, IstanbulHint } from "./hints";
+import {
+  getLineCounts,
+  getLineExtents,
+  getLineStarts,
+  getOffsetPosition,
+  getScriptRangeSet,
+  LineExtent,
+} from "./lines";
+import { isTypeOnlyStatement, ParserConfig } from "./parser";
+import { RangeSet } from "./range-set";
+import { getInlineSourceMap, RawSourceMap, remapFileCoverage } from "./source-map";
+import { ParsedSource, parseSource, ResolvedSourceType, SourceType } from "./source-type";
+import { getSubStatementRegions, StatementSpan } from "./sub-statements";
+import {
+  IstanbulBranch,
+  IstanbulBranchCoverageData,
+  IstanbulBranchType,
+  IstanbulFileCoverageData,
+  IstanbulFnCoverageData,
+  IstanbulFunction,
+  IstanbulStatementCoverageData,
+} from "./types";
+
+export { SourceType } from "./source-type";
+
+export interface IstambulizeScriptOptions {
+  /**
+   * The source text must be wrapped if the scriptcovs are wrapped.
+   */
+  sourceText: string;
+
+  /**
+   * With `auto`, the detected source type is reported in the result (`sourceType` field).
+   */
+  sourceType: SourceType;
+
+  /**
+   * URL of the script, used as the path of the result, in error messages and to detect the source type.
+   *
+   * Default: URL of the first added script coverage.
+   */
+  url?: string;
+
+  /**
+   * Syntax extensions and additional Babel plugins used to parse the source text.
+   */
+  parser?: ParserConfig;
+
+  /**
+   * Derive the keys of the statements, functions and branches from the type
+   * and location of their node instead of their index.
+   *
+   * The keys then only depend on the source text and not on the traversal order.
+   *
+   * Default: `false`
+   */
+  stableKeys?: boolean;
+
+  /**
+   * Add the SHA-1 hash of the source text to the result (`hash` field).
+   *
+   * Default: `false`
+   */
+  hash?: boolean;
+
+  /**
+   * Add the hit counts of the lines to the result (`l` field).
+   *
+   * They are computed directly from the V8 block ranges: a line is only
+   * covered if all of its blocks were executed.
+   *
+   * Default: `false`
+   */
+  lines?: boolean;
+
+  /**
+   * Add pseudo-statements for the regions of statements with a different
+   * count than their statement, as reported by the V8 block ranges (for
+   * example the right operand of `&&` or an arm of `?:`).
+   *
+   * They are added after the statements of the AST and are not included in
+   * the test attribution. They depend on the counts: results with
+   * sub-statements cannot be merged by key, add all the script coverages to
+   * the same `IstambulizeScript` instead.
+   *
+   * Default: `false`
+   */
+  subStatements?: boolean;
+
+  /**
+   * Throw an error if some V8 functions do not match any function of the AST.
+   *
+   * Default: `false`
+   */
+  strict?: boolean;
+}
+
+export interface IstanbulizeOptions extends IstambulizeScriptOptions {
+  scriptCov: ScriptCov;
+}
+
+export interface IstanbulizeSourceMapOptions extends IstanbulizeOptions {
+  /**
+   * Source map of the script, defaults to the inline source map of the source text.
+   */
+  sourceMap?: RawSourceMap;
+}
+
+/**
+ * Script coverage tagged with the ID of the test that produced it.
+ */
+export interface TaggedScriptCov {
+  testId: string;
+  scriptCov: ScriptCov;
+}
+
+export interface IstanbulizeTaggedOptions extends IstambulizeScriptOptions {
+  scriptCovs: ReadonlyArray<TaggedScriptCov>;
+}
+
+/**
+ * IDs of the tests that executed each item, keyed like the Istanbul data.
+ *
+ * The IDs are sorted. Items executed by no test have an empty list.
+ */
+export interface TestAttribution {
+  s: Record<string, string[]>;
+  f: Record<string, string[]>;
+
+  /**
+   * Test IDs for each arm of the branches.
+   */
+  b: Record<string, string[][]>;
+
+  /**
+   * Test IDs for each line, only if line counts are enabled.
+   */
+  l?: Record<number, string[]>;
+}
+
+export interface TaggedFileCoverage {
+  /**
+   * Aggregate coverage of all the tests.
+   */
+  coverage: IstanbulFileCoverageData;
+  tests: TestAttribution;
+}
+
+type FunctionLike = FunctionNode | Program;
+
+/**
+ * Node or synthetic function matching a V8 function.
+ */
+type RootLike = FunctionLike | ClassInitializer;
+
+type ClassField = ClassProperty | ClassPrivateProperty | ClassAccessorProperty;
+
+type BranchLike = IfStatement | ConditionalExpression | LogicalExpression | SwitchStatement;
+
+/**
+ * Converts a V8 ScriptCoverage object to an Istanbul FileCoverage data object.
+ */
+export function istanbulize(options: Readonly<IstanbulizeOptions>): IstanbulFileCoverageData {
+  const script: IstambulizeScript = new IstambulizeScript({url: options.scriptCov.url, ...options});
+  script.add(options.scriptCov);
+  return script.toIstanbul();
+}
+
+/**
+ * Converts the V8 ScriptCoverage objects of several tests to an Istanbul
+ * FileCoverage data object, and records which tests executed each item.
+ */
+export function istanbulizeTagged(options: Readonly<IstanbulizeTaggedOptions>): TaggedFileCoverage {
+  const url: string | undefined = options.scriptCovs.length > 0 ? options.scriptCovs[0].scriptCov.url : undefined;
+  const script: IstambulizeScript = new IstambulizeScript({url, ...options});
+  for (const {testId, scriptCov} of options.scriptCovs) {
+    script.add(scriptCov, testId);
+  }
+  return {coverage: script.toIstanbul(), tests: script.getTests()};
+}
+
+/**
+ * Converts a V8 ScriptCoverage object to Istanbul FileCoverage data objects
+ * for the original sources of the script.
+ *
+ * @return Coverage data for each original source, keyed by path.
+ */
+export function istanbulizeSourceMapped(
+  options: Readonly<IstanbulizeSourceMapOptions>,
+): Record<string, IstanbulFileCoverageData> {
+  const sourceMap: RawSourceMap | undefined = options.sourceMap !== undefined
+    ? options.sourceMap
+    : getInlineSourceMap(options.sourceText);
+  if (sourceMap === undefined) {
+    throw new Error(`SourceMapNotFound: ${options.scriptCov.url}`);
+  }
+  return remapFileCoverage(istanbulize(options), sourceMap);
+}
+
+const ROOT_SYMBOL: unique symbol = Symbol("root");
+const IGNORED_SYMBOL: unique symbol = Symbol("ignored");
+
+export class IstambulizeScript {
+  private path: string | undefined;
+  private readonly strict: boolean;
+  private readonly stableKeys: boolean;
+  private readonly hash: string | undefined;
+  private readonly sourceText: string;
+  private readonly ast: File;
+  private readonly sourceType: ResolvedSourceType;
+
+  /**
+   * The source type was detected (`auto`), it is then reported in the result.
+   */
+  private readonly detectSourceType: boolean;
+  private readonly roots: Set<FunctionLike>;
+
+  /**
+   * Enclosing root of each function.
+   */
+  private readonly parentRoots: Map<FunctionNode, RootLike>;
+
+  /**
+   * Roots already reported as unmatched.
+   */
+  private readonly unmatchedRoots: Set<FunctionLike>;
+  private readonly classInitializers: Map<Class, ClassInitializer[]>;
+  private readonly functionNames: Map<FunctionNode, string>;
+  private readonly functionInfos: Map<FunctionNode, FunctionInfo>;
+  private readonly functionCounts: Map<FunctionNode, number>;
+
+  /**
+   * Counts of the statements, and of the class fields with a value.
+   */
+  private readonly statementCounts: Map<Statement | ClassField, number>;
+  private readonly branchCounts: Map<BranchLike, number[]>;
+
+  /**
+   * Indexes of the arms of each branch that are not ignored by hints.
+   */
+  private readonly branchArms: Map<BranchLike, number[]>;
+
+  /**
+   * Extents of the lines that are not ignored, if line counts are enabled.
+   */
+  private readonly lineExtents: LineExtent[] | undefined;
+  private readonly lineCounts: Map<number, number>;
+
+  /**
+   * IDs of the tests that executed each statement, function, branch arm or line.
+   */
+  private readonly nodeTests: Map<Node, Set<string>>;
+  private readonly branchTests: Map<BranchLike, Array<Set<string>>>;
+  private readonly lineTests: Map<number, Set<string>>;
+
+  /**
+   * Statements of each root, including the ignored ones, and the sum of the
+   * ranges of each root, if sub-statements are enabled.
+   */
+  private readonly subStatements: boolean;
+  private readonly rootStatements: Map<RootLike, Array<Statement | ClassField>>;
+  private readonly rootRangeSets: Map<RootLike, RangeSet>;
+  private readonly diagnostics: Diagnostic[];
+
+  public constructor(options: Readonly<IstambulizeScriptOptions>) {
+    this.path = options.url;
+    this.strict = options.strict !== undefined ? options.strict : false;
+    this.stableKeys = options.stableKeys !== undefined ? options.stableKeys : false;
+    this.hash = options.hash === true ? getSourceTextHash(options.sourceText) : undefined;
+    this.sourceText = options.sourceText;
+    const parsed: ParsedSource = parseSource(
+      options.sourceText.trimRight(),
+      options.sourceType,
+      options.parser,
+      options.url,
+    );
+    this.ast = parsed.ast;
+    this.sourceType = parsed.sourceType;
+    this.detectSourceType = options.sourceType === SourceType.Auto;
+    this.roots = new Set();
+    this.parentRoots = new Map();
+    this.unmatchedRoots = new Set();
+    this.classInitializers = new Map();
+    this.functionNames = new Map();
+    this.functionInfos = new Map();
+    this.functionCounts = new Map();
+    this.statementCounts = new Map();
+    this.branchCounts = new Map();
+    this.branchArms = new Map();
+    this.nodeTests = new Map();
+    this.branchTests = new Map();
+    this.lineTests = new Map();
+    this.subStatements = options.subStatements === true;
+    this.rootStatements = new Map();
+    this.rootRangeSets = new Map();
+    this.diagnostics = [];
+
+    const ignoreFile: boolean = this.ast.comments !== null && this.ast.comments !== undefined && hasIgnoreFileHint(this.ast.comments);
+    const ignoredLines: Set<number> = getC8IgnoredLines(options.sourceText);
+
+    this.lineCounts = new Map();
+    if (options.lines === true) {
+      this.lineExtents = ignoreFile
+        ? []
+        : getLineExtents(options.sourceText).filter(({line}: LineExtent) => !ignoredLines.has(line));
+      for (const {line} of this.lineExtents) {
+        this.lineCounts.set(line, 0);
+      }
+    } else {
+      this.lineExtents = undefined;
+    }
+
+    // `@babel/types` traversal is used instead of `@babel/traverse`: it does
+    // not build paths and scales linearly with the number of siblings.
+    traverse(this.ast.program, {
+      enter: (node: Node, ancestors: TraversalAncestors) => {
+        // Ignored nodes are still traversed so their functions can be matched
+        const parent: Node | undefined = ancestors.length > 0 ? ancestors[ancestors.length - 1].node : undefined;
+        const statement: boolean = isStatement(node, parent);
+        const ignored: boolean = ignoreFile
+          || (node as any)[IGNORED_SYMBOL] === true
+          || (parent !== undefined && (parent as any)[IGNORED_SYMBOL] === true)
+          || getIstanbulHint(node) === "next"
+          || (statement && isTypeOnlyStatement(node))
+          || isIgnoredLoc(ignoredLines, node.loc!);
+        if (ignored) {
+          (node as any)[IGNORED_SYMBOL] = true;
+        }
+
+        if (isFunction(node)) {
+          this.functionInfos.set(node, getFunctionInfo(node, ancestors));
+        }
+        const parentRoot: RootLike | undefined = parent !== undefined ? ((parent as any)[ROOT_SYMBOL]) : undefined;
+        if (isFunction(node) || node.type === "Program") {
+          this.roots.add(node);
+          (node as any)[ROOT_SYMBOL] = node;
+          if (isFunction(node) && parentRoot !== undefined) {
+            this.parentRoots.set(node, parentRoot);
+          }
+        } else if (parentRoot !== undefined) {
+          (node as any)[ROOT_SYMBOL] = parentRoot;
+        }
+        if (isClassField(node) || node.type === "StaticBlock") {
+          // The parent is the class body
+          const classNode: Class = ancestors[ancestors.length - 2].node as Class;
+          const isStatic: boolean = node.type === "StaticBlock" || node.static;
+          (node as any)[ROOT_SYMBOL] = this.getClassInitializer(classNode, isStatic);
+        }
+        if (node.type === "IfStatement") {
+          const hint: IstanbulHint | undefined = getIstanbulHint(node);
+          if (hint === "if") {
+            (node.consequent as any)[IGNORED_SYMBOL] = true;
+          } else if (hint === "else" && node.alternate !== null) {
+            (node.alternate as any)[IGNORED_SYMBOL] = true;
+          }
+        }
+        if (this.subStatements && (isCountedStatement(node, statement) || isClassField(node))) {
+          const root: RootLike = (node as any)[ROOT_SYMBOL];
+          let statements: Array<Statement | ClassField> | undefined = this.rootStatements.get(root);
+          if (statements === undefined) {
+            statements = [];
+            this.rootStatements.set(root, statements);
+          }
+          statements.push(node as Statement | ClassField);
+        }
+        if (ignored) {
+          return;
+        }
+        if (isFunction(node)) {
+          this.functionCounts.set(node, 0);
+        }
+        if (isCountedStatement(node, statement)) {
+          this.statementCounts.set(node as Statement, 0);
+        }
+        if (isClassField(node) && node.value !== null && !isTypeOnlyStatement(node)) {
+          this.statementCounts.set(node, 0);
+        }
+        if (isBranch(node, ancestors)) {
+          const arms: number[] = getActiveBranchArms(node, ignoredLines);
+          if (arms.length > 0) {
+            this.branchArms.set(node, arms);
+            this.branchCounts.set(node, arms.map(() => 0));
+          }
+        }
+      },
+    });
+  }
+
+  /**
+   * Adds the counts of a script coverage.
+   *
+   * @param scriptCov V8 coverage of the script.
+   * @param testId ID of the test that produced this coverage, used to record
+   *               which tests executed each item (see `getTests`).
+   */
+  public add(scriptCov: ScriptCov, testId?: string): void {
+    const funcs: Map<RootLike, FunctionCov> = new Map(matchFunctions(this.sourceText, this.roots, scriptCov.functions));
+    const matchedCovs: Set<FunctionCov> = new Set(funcs.values());
+    const initializerCovs: FunctionCov[] = scriptCov.functions.filter((funcCov) => !matchedCovs.has(funcCov));
+    for (const [initializer, funcCov] of matchClassInitializers(this.classInitializers, initializerCovs)) {
+      funcs.set(initializer, funcCov);
+      matchedCovs.add(funcCov);
+    }
+    const unmatchedCovs: FunctionCov[] = scriptCov.functions.filter((funcCov) => !matchedCovs.has(funcCov));
+    if (this.strict && unmatchedCovs.length > 0) {
+      const names: string[] = unmatchedCovs.map(({functionName, ranges}) => {
+        return `${functionName !== "" ? functionName : "(anonymous)"}@${ranges[0].startOffset}:${ranges[0].endOffset}`;
+      });
+      throw new Error(`UnmatchedFunctionCov: Unable to match all V8 functions to an AST node (${scriptCov.url}): ${names.join(", ")}`);
+    }
+    if (this.path === undefined) {
+      this.path = scriptCov.url;
+    }
+    for (const {functionName, ranges} of unmatchedCovs) {
+      this.diagnostics.push({
+        type: DiagnosticType.UnmatchedFunctionCov,
+        url: scriptCov.url,
+        functionName,
+        startOffset: ranges[0].startOffset,
+        endOffset: ranges[0].endOffset,
+      });
+    }
+    for (const root of this.roots) {
+      if (funcs.has(root) || this.unmatchedRoots.has(root)) {
+        continue;
+      }
+      // V8 does not compile the functions nested inside a function that never ran
+      const parentRoot: RootLike | undefined = root.type !== "Program" ? this.parentRoots.get(root) : undefined;
+      const parentCov: FunctionCov | undefined = parentRoot !== undefined ? funcs.get(parentRoot) : undefined;
+      if (parentRoot !== undefined && (parentCov === undefined || parentCov.ranges[0].count === 0)) {
+        continue;
+      }
+      this.unmatchedRoots.add(root);
+      this.diagnostics.push({
+        type: DiagnosticType.UnmatchedFunctionNode,
+        url: scriptCov.url,
+        name: this.getFunctionName(root),
+        startOffset: root.start!,
+        endOffset: root.end!,
+        loc: getLoc(root),
+      });
+    }
+    for (const [node, funcCov] of funcs) {
+      if (!(node instanceof ClassInitializer) && node.type !== "Program" && this.functionCounts.has(node)) {
+        addCount(this.functionCounts, node, funcCov.ranges[0].count);
+        this.functionNames.set(node, funcCov.functionName);
+        if (testId !== undefined && funcCov.ranges[0].count > 0) {
+          addTest(this.nodeTests, node, testId);
+        }
+      }
+    }
+    const rangeSets: Map<RootLike, RangeSet> = new Map();
+    const getRangeSet = (root: RootLike, funcCov: FunctionCov): RangeSet => {
+      let rangeSet: RangeSet | undefined = rangeSets.get(root);
+      if (rangeSet === undefined) {
+        rangeSet = new RangeSet(root instanceof ClassInitializer ? getClassInitializerRanges(root, funcCov) : funcCov.ranges);
+        rangeSets.set(root, rangeSet);
+      }
+      return rangeSet;
+    };
+    for (const [statement, oldCount] of this.statementCounts) {
+      const root: RootLike | undefined = (statement as any)[ROOT_SYMBOL];
+      if (root === undefined) {
+        continue;
+      }
+      const funcCov: FunctionCov | undefined = funcs.get(root);
+      if (funcCov === undefined) {
+        this.diagnostics.push({
+          type: DiagnosticType.UncoveredStatement,
+          url: scriptCov.url,
+          startOffset: statement.start!,
+          endOffset: statement.end!,
+          loc: getLoc(statement),
+        });
+        continue;
+      }
+      const count: number = getCount(getRangeSet(root, funcCov), statement);
+      this.statementCounts.set(statement, oldCount + count);
+      if (testId !== undefined && count > 0) {
+        addTest(this.nodeTests, statement, testId);
+      }
+    }
+    for (const [branch, oldCounts] of this.branchCounts) {
+      const root: RootLike | undefined = (branch as any)[ROOT_SYMBOL];
+      if (root === undefined) {
+        continue;
+      }
+      const funcCov: FunctionCov | undefined = funcs.get(root);
+      if (funcCov === undefined) {
+        continue;
+      }
+      const counts: number[] = getBranchCounts(getRangeSet(root, funcCov), branch);
+      const arms: number[] = this.branchArms.get(branch)!;
+      this.branchCounts.set(branch, oldCounts.map((oldCount: number, i: number) => oldCount + counts[arms[i]]));
+      if (testId !== undefined) {
+        let armTests: Array<Set<string>> | undefined = this.branchTests.get(branch);
+        if (armTests === undefined) {
+          armTests = arms.map(() => new Set());
+          this.branchTests.set(branch, armTests);
+        }
+        for (const [i, arm] of arms.entries()) {
+          if (counts[arm] > 0) {
+            armTests[i].add(testId);
+          }
+        }
+      }
+    }
+    if (this.subStatements) {
+      for (const [root, rangeSet] of rangeSets) {
+        const oldRangeSet: RangeSet | undefined = this.rootRangeSets.get(root);
+        this.rootRangeSets.set(root, oldRangeSet !== undefined ? oldRangeSet.sum(rangeSet) : rangeSet);
+      }
+    }
+    if (this.lineExtents !== undefined) {
+      for (const [line, count] of getLineCounts(this.lineExtents, getScriptRangeSet(scriptCov))) {
+        this.lineCounts.set(line, this.lineCounts.get(line)! + count);
+        if (testId !== undefined && count > 0) {
+          addTest(this.lineTests, line, testId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the issues found while adding script coverages, in the order they were found.
+   */
+  public getDiagnostics(): ReadonlyArray<Diagnostic> {
+    return [...this.diagnostics];
+  }
+
+  public toIstanbul(): IstanbulFileCoverageData {
+    const result: IstanbulFileCoverageData = {
+      path: this.path !== undefined ? this.path : "",
+      ...this.getStatements(),
+      ...this.getFunctions(),
+      ...this.getBranches(),
+    };
+    if (this.lineExtents !== undefined) {
+      const l: Record<number, number> = Object.create(null);
+      for (const [line, count] of this.lineCounts) {
+        l[line] = count;
+      }
+      result.l = l;
+    }
+    if (this.hash !== undefined) {
+      result.hash = this.hash;
+    }
+    if (this.detectSourceType) {
+      result.sourceType = this.sourceType;
+    }
+    return result;
+  }
+
+  /**
+   * Returns the source type used to parse the source text, detected for `auto`.
+   */
+  public getSourceType(): ResolvedSourceType {
+    return this.sourceType;
+  }
+
+  /**
+   * Returns the IDs of the tests that executed each item, with the same keys
+   * as `toIstanbul` (sub-statements are not included).
+   */
+  public getTests(): TestAttribution {
+    const s: Record<string, string[]> = Object.create(null);
+    const nextStatementKey: KeyFactory = createKeyFactory("s", this.stableKeys);
+    for (const statementNode of this.statementCounts.keys()) {
+      s[nextStatementKey(statementNode)] = getTestIds(this.nodeTests.get(statementNode));
+    }
+
+    const f: Record<string, string[]> = Object.create(null);
+    const nextFunctionKey: KeyFactory = createKeyFactory("f", this.stableKeys);
+    for (const funcNode of this.functionCounts.keys()) {
+      f[nextFunctionKey(funcNode)] = getTestIds(this.nodeTests.get(funcNode));
+    }
+
+    const b: Record<string, string[][]> = Object.create(null);
+    const nextBranchKey: KeyFactory = createKeyFactory("b", this.stableKeys);
+    for (const [branchNode, counts] of this.branchCounts) {
+      const armTests: Array<Set<string>> | undefined = this.branchTests.get(branchNode);
+      b[nextBranchKey(branchNode)] = counts.map((_, i: number) => getTestIds(armTests !== undefined ? armTests[i] : undefined));
+    }
+
+    const result: TestAttribution = {s, f, b};
+    if (this.lineExtents !== undefined) {
+      const l: Record<number, string[]> = Object.create(null);
+      for (const line of this.lineCounts.keys()) {
+        l[line] = getTestIds(this.lineTests.get(line));
+      }
+      result.l = l;
+    }
+    return result;
+  }
+
+  private getStatements<S extends keyof any = keyof any>(): IstanbulStatementCoverageData<S> {
+    // TODO: Use `Record<S, ...>`
+    const statementMap: Record<keyof any, SourceLocation> = Object.create(null);
+    const s: Record<keyof any, number> = Object.create(null);
+
+    const nextKey: KeyFactory = createKeyFactory("s", this.stableKeys);
+    for (const [statementNode, count] of this.statementCounts) {
+      const key: string = nextKey(statementNode);
+      statementMap[key] = getLoc(statementNode);
+      s[key] = count;
+    }
+    if (this.subStatements) {
+      const lineStarts: number[] = getLineStarts(this.sourceText);
+      for (const {startOffset, endOffset, count} of this.getSubStatementRegions()) {
+        const loc: SourceLocation = {
+          start: getOffsetPosition(lineStarts, startOffset),
+          end: getOffsetPosition(lineStarts, endOffset),
+        };
+        const key: string = nextKey({type: "SubStatement", loc});
+        statementMap[key] = loc;
+        s[key] = count;
+      }
+    }
+
+    return {statementMap, s};
+  }
+
+  /**
+   * Returns the regions of statements with a different count than their
+   * statement, without their surrounding whitespace.
+   */
+  private getSubStatementRegions(): RangeCov[] {
+    const regions: RangeCov[] = [];
+    for (const [root, rangeSet] of this.rootRangeSets) {
+      const nodes: Array<Statement | ClassField> | undefined = this.rootStatements.get(root);
+      const statements: StatementSpan[] = (nodes !== undefined ? nodes : []).map((node: Node) => ({
+        start: node.start!,
+        end: node.end!,
+        count: this.statementCounts.get(node as Statement | ClassField),
+      }));
+      for (const region of getSubStatementRegions(statements, rangeSet.getRanges())) {
+        const text: string = this.sourceText.substring(region.startOffset, region.endOffset);
+        const startOffset: number = region.startOffset + text.length - text.trimLeft().length;
+        const endOffset: number = region.endOffset - (text.length - text.trimRight().length);
+        if (startOffset < endOffset) {
+          regions.push({startOffset, endOffset, count: region.count});
+        }
+      }
+    }
+    return regions.sort((a: RangeCov, b: RangeCov) => a.startOffset - b.startOffset);
+  }
+
+  private getFunctions<F extends keyof any = keyof any>(): IstanbulFnCoverageData<F> {
+    // TODO: Use `Record<F, ...>`
+    const fnMap: Record<keyof any, IstanbulFunction> = Object.create(null);
+    const f: Record<keyof any, number> = Object.create(null);
+
+    const nextKey: KeyFactory = createKeyFactory("f", this.stableKeys);
+    for (const [funcNode, count] of this.functionCounts) {
+      const key: string = nextKey(funcNode);
+      const info: FunctionInfo = this.functionInfos.get(funcNode)!;
+      // assert loc is defined
+      fnMap[key] = {
+        name: this.getFunctionName(funcNode),
+        decl: info.decl,
+        loc: getLoc(funcNode),
+        line: funcNode.loc!.start.line,
+      };
+      f[key] = count;
+    }
+    return {fnMap, f};
+  }
+
+  /**
+   * Returns the name of the function.
+   *
+   * The name reported by V8 is preferred (it is more precise for nested
+   * functions), except for class members where only the AST knows the class.
+   */
+  private getFunctionName(funcNode: FunctionLike): string {
+    if (funcNode.type === "Program") {
+      return "";
+    }
+    const info: FunctionInfo = this.functionInfos.get(funcNode)!;
+    const v8Name: string | undefined = this.functionNames.get(funcNode);
+    return info.isClassMember || v8Name === undefined || v8Name === "" ? info.name : v8Name;
+  }
+
+  /**
+   * Returns the initializer of the instance or static fields of a class.
+   */
+  private getClassInitializer(classNode: Class, isStatic: boolean): ClassInitializer {
+    let initializers: ClassInitializer[] | undefined = this.classInitializers.get(classNode);
+    if (initializers === undefined) {
+      initializers = [];
+      this.classInitializers.set(classNode, initializers);
+    }
+    let initializer: ClassInitializer | undefined = initializers.find((cur) => cur.isStatic === isStatic);
+    if (initializer === undefined) {
+      initializer = new ClassInitializer(classNode, isStatic);
+      initializers.push(initializer);
+    }
+    return initializer;
+  }
+
+  private getBranches<B extends keyof any = keyof any>(): IstanbulBranchCoverageData<B> {
+    const branchMap: Record<B, IstanbulBranch> = Object.create(null);
+    const b: Record<B, number[]> = Object.create(null);
+
+    const nextKey: KeyFactory = createKeyFactory("b", this.stableKeys);
+    for (const [branchNode, counts] of this.branchCounts) {
+      const locations: SourceLocation[] = getBranchLocations(branchNode);
+      const key: B = nextKey(branchNode) as B;
+      // assert loc is defined
+      branchMap[key] = {
+        type: getBranchType(branchNode),
+        line: branchNode.loc!.start.line,
+        loc: getLoc(branchNode),
+        locations: this.branchArms.get(branchNode)!.map((arm: number) => locations[arm]),
+      };
+      b[key] = [...counts];
+    }
+    return {branchMap, b};
+  }
+}
+
+type KeyFactory = (node: Pick<Node, "loc"> & {type: string}) => string;
+
+/**
+ * Creates a function returning the key of each node, in iteration order.
+ *
+ * Stable keys have the form `s:ExpressionStatement@1:0-1:10` (a numeric suffix
+ * is added in the unlikely case of a collision), other keys are `s0`, `s1`...
+ */
+function createKeyFactory(prefix: string, stable: boolean): KeyFactory {
+  let nextIndex: number = 0;
+  const usedKeys: Set<string> = new Set();
+  return (node: Pick<Node, "loc"> & {type: string}): string => {
+    if (!stable) {
+      return `${prefix}${nextIndex++}`;
+    }
+    // assert loc is defined
+    const {start, end} = node.loc!;
+    const baseKey: string = `${prefix}:${node.type}@${start.line}:${start.column}-${end.line}:${end.column}`;
+    let key: string = baseKey;
+    for (let i: number = 1; usedKeys.has(key); i++) {
+      key = `${baseKey}#${i}`;
+    }
+    usedKeys.add(key);
+    return key;
+  };
+}
+
+export function getSourceTextHash(sourceText: string): string {
+  return crypto.createHash("sha1").update(sourceText).digest("hex");
+}
+
+function addCount(counts: Map<Node, number> | WeakMap<Node, number>, node: Node, count: number): void {
+  const oldCount: number | undefined = counts.get(node);
+  if (oldCount === undefined) {
+    throw new Error("UnknownNode");
+  }
+  counts.set(node, oldCount + count);
+}
+
+function addTest<K>(tests: Map<K, Set<string>>, key: K, testId: string): void {
+  let testIds: Set<string> | undefined = tests.get(key);
+  if (testIds === undefined) {
+    testIds = new Set();
+    tests.set(key, testIds);
+  }
+  testIds.add(testId);
+}
+
+function getTestIds(testIds: ReadonlySet<string> | undefined): string[] {
+  return testIds !== undefined ? [...testIds].sort() : [];
+}
+
+/**
+ * Tests if the node is a statement.
+ *
+ * Variable declarations in the head of `for` loops are not statements.
+ */
+function isStatement(node: Node, parent: Node | undefined): boolean {
+  if (!isStatementType(node)) {
+    return false;
+  }
+  if (node.type === "VariableDeclaration" && parent !== undefined) {
+    switch (parent.type) {
+      case "ForInStatement":
+      case "ForOfStatement":
+        return parent.left !== node;
+      case "ForStatement":
+        return parent.init !== node;
+      default:
+        return true;
+    }
+  }
+  return true;
+}
+
+/**
+ * Tests if the statement gets a count: blocks and function declarations are not counted.
+ */
+function isCountedStatement(node: Node, statement: boolean): boolean {
+  return statement && !(node.type === "BlockStatement" || node.type === "FunctionDeclaration");
+}
+
+function isClassField(node: Node): node is ClassField {
+  return node.type === "ClassProperty" || node.type === "ClassPrivateProperty" || node.type === "ClassAccessorProperty";
+}
+
+/**
+ * Tests if the node is the root of an Istanbul branch.
+ *
+ * Nested logical expressions are flattened into the outermost one.
+ *
+ * Default parameters are not branches: V8 does not emit a range for their
+ * values, so the number of times they were used is unknown.
+ */
+function isBranch(node: Node, ancestors: TraversalAncestors): node is BranchLike {
+  const parent: TraversalAncestors[number] | undefined = ancestors[ancestors.length - 1];
+  switch (node.type) {
+    case "IfStatement":
+    case "ConditionalExpression":
+    case "SwitchStatement":
+      return true;
+    case "LogicalExpression":
+      return parent === undefined || parent.node.type !== "LogicalExpression";
+    default:
+      return false;
+  }
+}
+
+function getBranchType(branch: BranchLike): IstanbulBranchType {
+  switch (branch.type) {
+    case "IfStatement":
+      return "if";
+    case "ConditionalExpression":
+      return "cond-expr";
+    case "LogicalExpression":
+      return "binary-expr";
+    case "SwitchStatement":
+      return "switch";
+  }
+}
+
+/**
+ * Returns the nodes of the arms of the branch, `null` for an implicit `else`.
+ */
+function getBranchArms(branch: BranchLike): Array<Node | null> {
+  switch (branch.type) {
+    case "IfStatement":
+      return [branch.consequent, branch.alternate];
+    case "ConditionalExpression":
+      return [branch.consequent, branch.alternate];
+    case "LogicalExpression":
+      return getLogicalOperands(branch);
+    case "SwitchStatement":
+      return branch.cases;
+  }
+}
+
+/**
+ * Returns the indexes of the arms of the branch that are not ignored.
+ *
+ * An arm is ignored by the `istanbul ignore if/else` hints of its `if`
+ * statement, an `istanbul ignore next` hint or c8 hints covering all its lines.
+ */
+function getActiveBranchArms(branch: BranchLike, ignoredLines: ReadonlySet<number>): number[] {
+  const active: number[] = [];
+  for (const [i, arm] of getBranchArms(branch).entries()) {
+    if (arm === null) {
+      // Implicit `else`
+      if (getIstanbulHint(branch) !== "else") {
+        active.push(i);
+      }
+    } else if (
+      (arm as any)[IGNORED_SYMBOL] !== true
+      && getIstanbulHint(arm) !== "next"
+      && !isIgnoredLoc(ignoredLines, arm.loc!)
+    ) {
+      active.push(i);
+    }
+  }
+  return active;
+}
+
+/**
+ * Returns the operands of a chain of logical expressions, from left to right.
+ *
+ * For example, `a && b || c` has the operands `a`, `b` and `c`.
+ */
+function getLogicalOperands(expr: LogicalExpression): Expression[] {
+  const operands: Expression[] = [];
+  const stack: Expression[] = [expr];
+  while (stack.length > 0) {
+    const cur: Expression = stack.pop()!;
+    if (cur.type === "LogicalExpression") {
+      stack.push(cur.right, cur.left);
+    } else {
+      operands.push(cur);
+    }
+  }
+  return operands;
+}
+
+/**
+ * Returns the locations of the arms of the branch, in the same order as the counts.
+ *
+ * Istanbul uses the location of the whole `if` statement for both of its arms,
+ * this matches it (it also covers the implicit `else` arm).
+ */
+function getBranchLocations(branch: BranchLike): SourceLocation[] {
+  switch (branch.type) {
+    case "IfStatement":
+      return [getLoc(branch), getLoc(branch)];
+    case "ConditionalExpression":
+      return [getLoc(branch.consequent), getLoc(branch.alternate)];
+    case "LogicalExpression":
+      return getLogicalOperands(branch).map(getLoc);
+    case "SwitchStatement":
+      return branch.cases.map(getLoc);
+  }
+}
+
+/**
+ * Returns the hit count of each arm of the branch.
+ *
+ * V8 does not emit a range for an implicit `else`: its count is the number of
+ * times the `if` statement was executed minus the count of the consequent.
+ * The count of each operand of a logical expression is the number of times it
+ * was evaluated (V8 emits a range starting at the operator before it).
+ */
+function getBranchCounts(rangeSet: RangeSet, branch: BranchLike): number[] {
+  switch (branch.type) {
+    case "IfStatement": {
+      const consequentCount: number = getCount(rangeSet, branch.consequent);
+      const alternateCount: number = branch.alternate !== null
+        ? getCount(rangeSet, branch.alternate)
+        : Math.max(getCount(rangeSet, branch) - consequentCount, 0);
+      return [consequentCount, alternateCount];
+    }
+    case "ConditionalExpression":
+      return [getCount(rangeSet, branch.consequent), getCount(rangeSet, branch.alternate)];
+    case "LogicalExpression":
+      return getLogicalOperands(branch).map((operand: Expression) => getCount(rangeSet, operand));
+    case "SwitchStatement":
+      return branch.cases.map((switchCase: Node) => getCount(rangeSet, switchCase));
+  }
+}
+
+function matchFunctions(
+  sourceText: string,
+  funcNodes: Iterable<FunctionLike>,
+  funcCovs: Iterable<FunctionCov>,
+): Map<FunctionLike, FunctionCov> {
+  // Remaining function coverages, indexed by start offset
+  const remaining: Map<number, FunctionCov[]> = new Map();
+  for (const funcCov of funcCovs) {
+    const startOffset: number = funcCov.ranges[0].startOffset;
+    let candidates: FunctionCov[] | undefined = remaining.get(startOffset);
+    if (candidates === undefined) {
+      candidates = [];
+      remaining.set(startOffset, candidates);
+    }
+    candidates.push(funcCov);
+  }
+  const matched: Map<FunctionLike, FunctionCov> = new Map();
+
+  for (const funcNode of funcNodes) {
+    const candidates: FunctionCov[] | undefined = remaining.get(getFunctionStart(sourceText, funcNode));
+    if (candidates === undefined) {
+      continue;
+    }
+    for (let i: number = candidates.length - 1; i >= 0; i--) {
+      if (isFunctionEnd(candidates[i].ranges[0].endOffset, funcNode)) {
+        matched.set(funcNode, candidates[i]);
+        candidates.splice(i, 1);
+        break;
+      }
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Tests if the end offset of a V8 function range matches the end of the node.
+ *
+ * The source text is right-trimmed before parsing, so the script range may
+ * extend past the end of the `Program` node.
+ */
+function isFunctionEnd(endOffset: number, funcNode: FunctionLike): boolean {
+  return funcNode.type === "Program" ? endOffset >= funcNode.end! : endOffset === funcNode.end;
+}
+
+function getCount(rangeSet: RangeSet, node: Node): number {
+  return rangeSet.getCount(node.start!, node.end!);
+}
@@ -0,0 +1,132 @@
+import { RangeCov, ScriptCov } from "@c88/v8-coverage";
+import { RangeSet } from "./range-set";
+
+/**
+ * Offsets of the code of a line, without the surrounding whitespace.
+ */
+export interface LineExtent {
+  /**
+   * 1-based index of the line.
+   */
+  line: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+// Line terminators recognized by Babel
+const LINE_TERMINATOR: RegExp = /\r\n?|[\n\u2028\u2029]/g;
+
+/**
+ * Returns the offset of the start of each line, the first item is line 1.
+ */
+export function getLineStarts(sourceText: string): number[] {
+  const starts: number[] = [0];
+  LINE_TERMINATOR.lastIndex = 0;
+  while (true) {
+    const match: RegExpExecArray | null = LINE_TERMINATOR.exec(sourceText);
+    if (match === null) {
+      break;
+    }
+    starts.push(match.index + match[0].length);
+  }
+  return starts;
+}
+
+/**
+ * Returns the 1-based line and 0-based column of an offset.
+ *
+ * @param lineStarts Offsets of the start of each line, see `getLineStarts`.
+ * @param offset Offset in the source text.
+ */
+export function getOffsetPosition(lineStarts: ReadonlyArray<number>, offset: number): {line: number, column: number} {
+  let low: number = 0;
+  let high: number = lineStarts.length - 1;
+  while (low < high) {
+    const mid: number = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return {line: low + 1, column: offset - lineStarts[low]};
+}
+
+/**
+ * Returns the extents of the lines of the source text, lines with only
+ * whitespace are omitted.
+ */
+export function getLineExtents(sourceText: string): LineExtent[] {
+  const extents: LineExtent[] = [];
+  const starts: number[] = getLineStarts(sourceText);
+  for (const [i, lineStart] of starts.entries()) {
+    const lineEnd: number = i + 1 < starts.length ? starts[i + 1] : sourceText.length;
+    // Line terminators are whitespace
+    const text: string = sourceText.substring(lineStart, lineEnd);
+    const leading: number = text.length - text.trimLeft().length;
+    const trailing: number = text.length - text.trimRight().length;
+    if (leading < text.length) {
+      extents.push({line: i + 1, startOffset: lineStart + leading, endOffset: lineEnd - trailing});
+    }
+  }
+  return extents;
+}
+
+/**
+ * Returns the count of each line: the minimum count of the code of the line.
+ *
+ * A line is only counted as executed if all of its blocks were executed.
+ * Lines outside of the ranges are omitted.
+ *
+ * @param lines Extents of the lines, sorted by offset.
+ * @param rangeSet Flattened ranges of all the functions of the script.
+ */
+export function getLineCounts(lines: ReadonlyArray<LineExtent>, rangeSet: RangeSet): Map<number, number> {
+  const segments: RangeCov[] = rangeSet.getRanges();
+  const counts: Map<number, number> = new Map();
+  let first: number = 0;
+  for (const {line, startOffset, endOffset} of lines) {
+    while (first < segments.length && segments[first].endOffset <= startOffset) {
+      first++;
+    }
+    let count: number | undefined;
+    for (let i: number = first; i < segments.length && segments[i].startOffset < endOffset; i++) {
+      count = count !== undefined ? Math.min(count, segments[i].count) : segments[i].count;
+    }
+    if (count !== undefined) {
+      counts.set(line, count);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Returns the flattened ranges of all the functions of a script.
+ *
+ * The ranges of nested functions are nested in the ranges of their parent.
+ */
+export function getScriptRangeSet(scriptCov: Readonly<ScriptCov>): RangeSet {
+  const ranges: RangeCov[] = [];
+  for (const funcCov of scriptCov.functions) {
+    ranges.push(...funcCov.ranges);
+  }
+  return new RangeSet(ranges);
+}
+
+/**
+ * Computes the line coverage of a script directly from its V8 block ranges.
+ *
+ * Unlike the line coverage derived from statements by Istanbul, a line
+ * containing a block that was not executed is not covered.
+ *
+ * @param scriptCov V8 coverage of the script.
+ * @param sourceText Source text of the script.
+ * @return Hit counts keyed by 1-based line index.
+ */
+export function getLineCoverage(scriptCov: Readonly<ScriptCov>, sourceText: string): Record<number, number> {
+  const result: Record<number, number> = Object.create(null);
+  for (const [line, count] of getLineCounts(getLineExtents(sourceText), getScriptRangeSet(scriptCov))) {
+    result[line] = count;
+  }
+  return result;
+}
@@ -0,0 +1,127 @@
+import { parse as babelParse, ParserPlugin } from "@babel/parser";
+import {
+  File,
+  isClassAccessorProperty,
+  isClassDeclaration,
+  isClassProperty,
+  isExportAllDeclaration,
+  isExportNamedDeclaration,
+  isFlow,
+  isFunctionDeclaration,
+  isImportDeclaration,
+  isTSDeclareFunction,
+  isTSEnumDeclaration,
+  isTSInterfaceDeclaration,
+  isTSModuleDeclaration,
+  isTSTypeAliasDeclaration,
+  isVariableDeclaration,
+  Node,
+} from "@babel/types";
+
+export { ParserPlugin } from "@babel/parser";
+
+/**
+ * Syntax extensions supported on top of the standard syntax.
+ */
+export enum ParserPreset {
+  Flow = "flow",
+  Jsx = "jsx",
+  TypeScript = "typescript",
+}
+
+export interface ParserConfig {
+  /**
+   * Syntax extensions to enable.
+   *
+   * `flow` and `typescript` are incompatible.
+   */
+  presets?: ReadonlyArray<ParserPreset>;
+
+  /**
+   * Additional Babel parser plugins.
+   */
+  plugins?: ReadonlyArray<ParserPlugin>;
+}
+
+/**
+ * Plugins always enabled: they only add syntax supported by recent V8 versions.
+ */
+const DEFAULT_PLUGINS: ReadonlyArray<ParserPlugin> = [
+  "bigInt",
+  "classPrivateMethods",
+  "classPrivateProperties",
+  "classProperties",
+  "classStaticBlock",
+  "dynamicImport",
+  "importMeta",
+  "nullishCoalescingOperator",
+  "numericSeparator",
+  "optionalCatchBinding",
+  "optionalChaining",
+];
+
+/**
+ * Parses the source text of a script.
+ *
+ * Top-level `await` is allowed in modules.
+ *
+ * @param sourceText Source text of the script.
+ * @param isModule Parse the script as an ES module.
+ * @param config Parser configuration.
+ * @param url URL of the script, used in error messages.
+ * @return Babel AST of the script.
+ */
+export function parseSourceText(
+  sourceText: string,
+  isModule: boolean,
+  config: Readonly<ParserConfig> = {},
+  url?: string,
+): File {
+  const presets: ReadonlyArray<ParserPreset> = config.presets !== undefined ? config.presets : [];
+  if (presets.indexOf(ParserPreset.Flow) >= 0 && presets.indexOf(ParserPreset.TypeScript) >= 0) {
+    throw new Error("IncompatibleParserPresets: `flow` and `typescript` cannot be used together");
+  }
+  const plugins: ParserPlugin[] = [...DEFAULT_PLUGINS, ...presets];
+  if (config.plugins !== undefined) {
+    for (const plugin of config.plugins) {
+      if (plugins.indexOf(plugin) < 0) {
+        plugins.push(plugin);
+      }
+    }
+  }
+  try {
+    return babelParse(sourceText, {
+      sourceType: isModule ? "module" : "script",
+      allowAwaitOutsideFunction: isModule,
+      plugins,
+    });
+  } catch (err) {
+    const location: string = url !== undefined && url !== "" ? url : "<anonymous>";
+    throw new Error(`SyntaxError: Unable to parse ${location}: ${err.message}`);
+  }
+}
+
+/**
+ * Tests if the statement or class field only exists at the type level
+ * (TypeScript or Flow) and has no runtime counterpart.
+ */
+export function isTypeOnlyStatement(node: Node): boolean {
+  if (isFlow(node) || isTSDeclareFunction(node) || isTSInterfaceDeclaration(node) || isTSTypeAliasDeclaration(node)) {
+    return true;
+  } else if (isImportDeclaration(node)) {
+    return node.importKind === "type" || node.importKind === "typeof";
+  } else if (isExportNamedDeclaration(node) || isExportAllDeclaration(node)) {
+    return node.exportKind === "type";
+  } else if (
+    isClassDeclaration(node)
+    || isFunctionDeclaration(node)
+    || isVariableDeclaration(node)
+    || isTSEnumDeclaration(node)
+    || isTSModuleDeclaration(node)
+    || isClassProperty(node)
+    || isClassAccessorProperty(node)
+  ) {
+    return node.declare === true;
+  }
+  return false;
+}
@@ -0,0 +1,231 @@
+import { ProcessCov, ScriptCov } from "@c88/v8-coverage";
+import fs from "fs";
+import { ParsedScriptUrl, parseSys as parseNodeScriptUrl } from "node-script-url";
+import sysPath from "path";
+import { istanbulize } from "./istanbulize";
+import { getFileSourceType, ResolvedSourceType, SourceType } from "./source-type";
+import { IstanbulFileCoverageData } from "./types";
+import { detectWrapper, unwrapScriptCov, WrapperPreset } from "./wrapper";
+
+export { ProcessCov } from "@c88/v8-coverage";
+
+/**
+ * Loads the source text of a script.
+ *
+ * @param path System path of the script.
+ * @return Source text of the script, or `undefined` to skip this script.
+ */
+export type SourceLoader = (path: string) => Promise<string | undefined>;
+
+export interface IstanbulizeProcessOptions {
+  /**
+   * Source text loader, defaults to reading the file from the disk.
+   */
+  loadSource?: SourceLoader;
+
+  /**
+   * Add the hit counts of the lines computed from the V8 block ranges (`l` field).
+   *
+   * Default: `false`
+   */
+  lines?: boolean;
+
+  /**
+   * Returns `true` if the script with the provided system path should be converted.
+   *
+   * Internal scripts and scripts without a `file://` URL are always excluded.
+   */
+  filter?(path: string): boolean;
+
+  /**
+   * Called when a script fails to convert or its coverage does not match its
+   * source text, the script is then skipped.
+   *
+   * By default, the error is thrown.
+   */
+  onError?(path: string, error: Error): void;
+}
+
+// https://github.com/nodejs/node/blob/966a2df0f620cfe59e6ce2b161ff8bf7446b46ee/lib/internal/modules/esm/create_dynamic_module.js#L14
+const CJS_FACADE: RegExp = /import\.meta\.exports\.[\s\S]*import\.meta\.done()/;
+
+const COVERAGE_FILE: RegExp = /^coverage-.*\.json$/;
+
+/**
+ * Tests if the source text is the facade created by Node's ESM loader for a CommonJS module.
+ *
+ * The facade has the same URL as the CommonJS module: its coverage must be ignored.
+ */
+export function isCjsFacade(sourceText: string): boolean {
+  return CJS_FACADE.test(sourceText);
+}
+
+/**
+ * Converts the V8 coverage of a whole process to Istanbul FileCoverage data objects.
+ *
+ * The CommonJS scripts are unwrapped if their coverage covers `Module.wrapper`,
+ * and the offsets are shifted if the shebang or BOM was removed before compilation.
+ * Scripts with a coverage not matching their source text, or failing to
+ * convert, are reported to `onError` (or the error is thrown). The
+ * results include the hash of the source text: merging the coverage of
+ * different source texts for the same path throws an error.
+ *
+ * @param processCov V8 process coverage.
+ * @param options Source loader and filter.
+ * @return Coverage data for each script, keyed by system path.
+ */
+export async function istanbulizeProcessCov(
+  processCov: Readonly<ProcessCov>,
+  options: Readonly<IstanbulizeProcessOptions> = {},
+): Promise<Record<string, IstanbulFileCoverageData>> {
+  const loadSource: SourceLoader = options.loadSource !== undefined ? options.loadSource : readSourceText;
+  const result: Record<string, IstanbulFileCoverageData> = Object.create(null);
+  const packageTypes: Map<string, ResolvedSourceType | undefined> = new Map();
+
+  for (const scriptCov of processCov.result) {
+    if (scriptCov.url === "") {
+      continue;
+    }
+    const urlInfo: ParsedScriptUrl = parseNodeScriptUrl(scriptCov.url);
+    if (!urlInfo.isFileUrl) {
+      continue;
+    }
+    if (options.filter !== undefined && !options.filter(urlInfo.path)) {
+      continue;
+    }
+    const sourceText: string | undefined = await loadSource(urlInfo.path);
+    if (sourceText === undefined || isCjsFacade(sourceText)) {
+      continue;
+    }
+    const sourceType: ResolvedSourceType = getSourceType(urlInfo.path, packageTypes);
+    let fileCov: IstanbulFileCoverageData;
+    try {
+      const resolvedScriptCov: ScriptCov = resolveScriptCov(scriptCov, sourceText, sourceType);
+      fileCov = istanbulize({sourceText, sourceType, scriptCov: resolvedScriptCov, hash: true, lines: options.lines});
+    } catch (err) {
+      if (options.onError === undefined) {
+        throw err;
+      }
+      options.onError(urlInfo.path, err);
+      continue;
+    }
+    fileCov.path = urlInfo.path;
+    const oldFileCov: IstanbulFileCoverageData | undefined = result[urlInfo.path];
+    result[urlInfo.path] = oldFileCov !== undefined ? mergeFileCoverage(oldFileCov, fileCov) : fileCov;
+  }
+
+  return result;
+}
+
+/**
+ * Converts the V8 coverage files of a directory to Istanbul FileCoverage data objects.
+ *
+ * This reads the `coverage-*.json` files written by Node when `NODE_V8_COVERAGE` is set.
+ *
+ * @param dir Path of the coverage directory.
+ * @param options Source loader and filter.
+ * @return Coverage data for each script of all the processes, keyed by system path.
+ */
+export async function istanbulizeCoverageDir(
+  dir: string,
+  options: Readonly<IstanbulizeProcessOptions> = {},
+): Promise<Record<string, IstanbulFileCoverageData>> {
+  const result: Record<string, IstanbulFileCoverageData> = Object.create(null);
+  const fileNames: string[] = (await fs.promises.readdir(dir)).filter((name: string) => COVERAGE_FILE.test(name));
+  fileNames.sort();
+  for (const fileName of fileNames) {
+    const processResult: Record<string, IstanbulFileCoverageData> = await istanbulizeCoverageFile(
+      sysPath.join(dir, fileName),
+      options,
+    );
+    for (const [path, fileCov] of Object.entries(processResult)) {
+      const oldFileCov: IstanbulFileCoverageData | undefined = result[path];
+      result[path] = oldFileCov !== undefined ? mergeFileCoverage(oldFileCov, fileCov) : fileCov;
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts a V8 coverage file to Istanbul FileCoverage data objects.
+ *
+ * @param path Path of the JSON file containing the V8 process coverage.
+ * @param options Source loader and filter.
+ * @return Coverage data for each script, keyed by system path.
+ */
+export async function istanbulizeCoverageFile(
+  path: string,
+  options: Readonly<IstanbulizeProcessOptions> = {},
+): Promise<Record<string, IstanbulFileCoverageData>> {
+  const json: string = (await fs.promises.readFile(path)).toString("UTF-8");
+  const processCov: ProcessCov = JSON.parse(json);
+  return istanbulizeProcessCov(processCov, options);
+}
+
+async function readSourceText(path: string): Promise<string | undefined> {
+  try {
+    return (await fs.promises.readFile(path)).toString("UTF-8");
+  } catch (err) {
+    if (err.code === "ENOENT") {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+function getSourceType(path: string, packageTypes: Map<string, ResolvedSourceType | undefined>): ResolvedSourceType {
+  const sourceType: ResolvedSourceType | undefined = getFileSourceType(path, packageTypes);
+  return sourceType !== undefined ? sourceType : SourceType.Script;
+}
+
+/**
+ * Returns the script coverage relative to the source text.
+ *
+ * Throws if the script coverage has no root range or does not match the
+ * source text (for example if the file changed after the coverage was collected).
+ */
+function resolveScriptCov(scriptCov: ScriptCov, sourceText: string, sourceType: SourceType): ScriptCov {
+  const candidates: WrapperPreset[] = sourceType === SourceType.Script
+    ? [WrapperPreset.VmCompileFunction, WrapperPreset.NodeCjs]
+    : [WrapperPreset.VmCompileFunction];
+  // Throws `InvalidScriptCov` if the root range is missing
+  const wrapper: [number, number] = detectWrapper(scriptCov, sourceText, candidates);
+  const [prefixLen, suffixLen] = wrapper;
+  return prefixLen === 0 && suffixLen === 0 ? scriptCov : unwrapScriptCov(scriptCov, wrapper);
+}
+
+/**
+ * Sums the counts of two coverage data objects for the same source text.
+ *
+ * Throws if the hashes of the source texts are different.
+ */
+export function mergeFileCoverage(
+  left: IstanbulFileCoverageData,
+  right: IstanbulFileCoverageData,
+): IstanbulFileCoverageData {
+  if (left.hash !== undefined && right.hash !== undefined && left.hash !== right.hash) {
+    throw new Error(`MismatchedSources: Unable to merge the coverage of different source texts for ${left.path}`);
+  }
+  const s: Record<string, number> = {...left.s};
+  for (const [key, count] of Object.entries(right.s)) {
+    s[key] = (s[key] !== undefined ? s[key] : 0) + count;
+  }
+  const f: Record<string, number> = {...left.f};
+  for (const [key, count] of Object.entries(right.f)) {
+    f[key] = (f[key] !== undefined ? f[key] : 0) + count;
+  }
+  const b: Record<string, number[]> = {...left.b};
+  for (const [key, counts] of Object.entries(right.b)) {
+    const oldCounts: number[] | undefined = b[key];
+    b[key] = oldCounts !== undefined ? counts.map((count: number, i: number) => oldCounts[i] + count) : counts;
+  }
+  const result: IstanbulFileCoverageData = {...left, s, f, b};
+  if (left.l !== undefined && right.l !== undefined) {
+    const l: Record<string, number> = {...left.l};
+    for (const [line, count] of Object.entries(right.l)) {
+      l[line] = (l[line] !== undefined ? l[line] : 0) + count;
+    }
+    result.l = l;
+  }
+  return result;
+}
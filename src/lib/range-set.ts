@@ -0,0 +1,141 @@
+import { RangeCov } from "@c88/v8-coverage";
+import { buildRangeForest, RangeTree } from "./range-tree";
+
+/**
+ * Normalized set of V8 block ranges: disjoint segments sorted by offset.
+ *
+ * V8 reports nested ranges where the count of the innermost range applies.
+ * A range set flattens them so each offset has a single count, which makes it
+ * possible to merge the ranges of different runs.
+ */
+export class RangeSet {
+  /**
+   * Disjoint, non-empty, sorted segments. Contiguous segments have different counts.
+   */
+  private readonly segments: ReadonlyArray<RangeCov>;
+
+  /**
+   * Creates a range set from nested V8 ranges.
+   *
+   * The innermost range wins. Equal ranges apply in their order of
+   * appearance: the last one wins.
+   *
+   * @param ranges Nested ranges, in any order.
+   */
+  public constructor(ranges: Iterable<RangeCov>) {
+    const segments: RangeCov[] = [];
+    for (const tree of buildRangeForest([...ranges])) {
+      flattenTree(tree, segments);
+    }
+    this.segments = segments;
+  }
+
+  /**
+   * Returns the flattened ranges: disjoint and sorted by offset.
+   */
+  public getRanges(): RangeCov[] {
+    return this.segments.map((segment: RangeCov) => ({...segment}));
+  }
+
+  /**
+   * Returns the count at the provided offset, or `undefined` if no range contains it.
+   */
+  public getCountAt(offset: number): number | undefined {
+    const index: number = findSegment(this.segments, offset);
+    return index >= 0 ? this.segments[index].count : undefined;
+  }
+
+  /**
+   * Returns the count of the interval `[start, end)`.
+   *
+   * This is the count at `start`: V8 ranges start at the beginning of blocks,
+   * so the first offset of a statement or expression decides whether it ran.
+   */
+  public getCount(start: number, end: number): number {
+    const count: number | undefined = this.getCountAt(start);
+    if (count === undefined || end > this.segments[this.segments.length - 1].endOffset) {
+      throw new Error("Count not found");
+    }
+    return count;
+  }
+
+  /**
+   * Returns a new range set where the count of each offset is the sum of its
+   * counts in both sets.
+   *
+   * Offsets covered by a single set keep their count.
+   */
+  public sum(other: RangeSet): RangeSet {
+    const boundaries: number[] = [];
+    for (const {startOffset, endOffset} of [...this.segments, ...other.segments]) {
+      boundaries.push(startOffset, endOffset);
+    }
+    boundaries.sort((a: number, b: number) => a - b);
+
+    const segments: RangeCov[] = [];
+    for (let i: number = 0; i < boundaries.length - 1; i++) {
+      const startOffset: number = boundaries[i];
+      const endOffset: number = boundaries[i + 1];
+      if (startOffset === endOffset) {
+        continue;
+      }
+      const left: number | undefined = this.getCountAt(startOffset);
+      const right: number | undefined = other.getCountAt(startOffset);
+      if (left === undefined && right === undefined) {
+        continue;
+      }
+      const count: number = (left !== undefined ? left : 0) + (right !== undefined ? right : 0);
+      pushSegment(segments, {startOffset, endOffset, count});
+    }
+    return new RangeSet(segments);
+  }
+}
+
+/**
+ * Appends the flattened segments of the tree.
+ */
+function flattenTree(tree: RangeTree, segments: RangeCov[]): void {
+  let offset: number = tree.start;
+  for (const child of tree.children) {
+    if (child.start > offset) {
+      pushSegment(segments, {startOffset: offset, endOffset: child.start, count: tree.count});
+    }
+    flattenTree(child, segments);
+    offset = Math.max(offset, child.end);
+  }
+  if (tree.end > offset) {
+    pushSegment(segments, {startOffset: offset, endOffset: tree.end, count: tree.count});
+  }
+}
+
+/**
+ * Appends a segment, merging it with the last one if they are contiguous with the same count.
+ */
+function pushSegment(segments: RangeCov[], segment: RangeCov): void {
+  if (segment.startOffset >= segment.endOffset) {
+    return;
+  }
+  const last: RangeCov | undefined = segments[segments.length - 1];
+  if (last !== undefined && last.endOffset === segment.startOffset && last.count === segment.count) {
+    last.endOffset = segment.endOffset;
+  } else {
+    segments.push(segment);
+  }
+}
+
+/**
+ * Returns the index of the segment containing the offset, or `-1`.
+ */
+function findSegment(segments: ReadonlyArray<RangeCov>, offset: number): number {
+  let low: number = 0;
+  let high: number = segments.length;
+  while (low < high) {
+    const mid: number = Math.floor((low + high) / 2);
+    if (segments[mid].endOffset <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low < segments.length && segments[low].startOffset <= offset ? low : -1;
+}
@@ -0,0 +1,54 @@
+import { RangeCov } from "@c88/v8-coverage";
+
+/**
+ * Nesting tree of V8 block ranges.
+ *
+ * The children of a node are sorted by start offset and do not overlap.
+ */
+export class RangeTree {
+  public readonly start: number;
+  public readonly end: number;
+  public readonly count: number;
+  public readonly children: RangeTree[];
+
+  public constructor(start: number, end: number, count: number, children: RangeTree[]) {
+    this.start = start;
+    this.end = end;
+    this.count = count;
+    this.children = children;
+  }
+}
+
+/**
+ * Builds the nesting trees of arbitrary ranges, sorted by start offset.
+ *
+ * Equal ranges are nested in their order of appearance: the last one is the
+ * innermost. Partially overlapping ranges are not supported.
+ */
+export function buildRangeForest(ranges: ReadonlyArray<RangeCov>): RangeTree[] {
+  const sorted: RangeCov[] = [...ranges.keys()]
+    .sort((a: number, b: number) => compareRanges(ranges[a], ranges[b]) || a - b)
+    .map((i: number) => ranges[i]);
+  const roots: RangeTree[] = [];
+  const stack: RangeTree[] = [];
+  for (const range of sorted) {
+    while (stack.length > 0 && stack[stack.length - 1].end < range.endOffset) {
+      stack.pop();
+    }
+    const tree: RangeTree = new RangeTree(range.startOffset, range.endOffset, range.count, []);
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(tree);
+    } else {
+      roots.push(tree);
+    }
+    stack.push(tree);
+  }
+  return roots;
+}
+
+/**
+ * Orders ranges by increasing start offset, then decreasing end offset.
+ */
+function compareRanges(a: RangeCov, b: RangeCov): number {
+  return a.startOffset !== b.startOffset ? a.startOffset - b.startOffset : b.endOffset - a.endOffset;
+}
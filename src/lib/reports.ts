@@ -0,0 +1,230 @@
+import sysPath from "path";
+import { CoverageCounts, CoverageSummary, getFileLineCounts, getFileSummary, getReportSummary } from "./summary";
+import { IstanbulFileCoverageData, IstanbulFunction } from "./types";
+
+export interface CoberturaOptions {
+  /**
+   * Directory of the sources, reported in the `<sources>` element.
+   *
+   * Default: `"."`
+   */
+  sourceRoot?: string;
+
+  /**
+   * Value of the `timestamp` attribute.
+   *
+   * Default: `0`, so the output only depends on the coverage.
+   */
+  timestamp?: number;
+}
+
+/**
+ * Hit counts of the branch arms starting on a line.
+ */
+interface LineBranches {
+  covered: number;
+  total: number;
+}
+
+/**
+ * Serializes coverage data to the lcov tracefile format (`lcov.info`).
+ *
+ * The files are sorted by path. The lines are the `l` field if present,
+ * otherwise they are derived from the statements. Anonymous functions are
+ * named `(anonymous_<index>)`, like Istanbul.
+ *
+ * @param fileCovs Coverage data of the files, as an array or keyed by path.
+ */
+export function toLcov(
+  fileCovs: ReadonlyArray<IstanbulFileCoverageData> | Readonly<Record<string, IstanbulFileCoverageData>>,
+): string {
+  const chunks: string[] = [];
+  for (const fileCov of getSortedFileCovs(fileCovs)) {
+    chunks.push("TN:\n", `SF:${fileCov.path}\n`);
+    const fnKeys: string[] = Object.keys(fileCov.fnMap);
+    const fnNames: string[] = fnKeys.map((key: string, i: number) => getFunctionName(fileCov.fnMap[key], i));
+    fnKeys.forEach((key: string, i: number) => {
+      chunks.push(`FN:${fileCov.fnMap[key].line},${fnNames[i]}\n`);
+    });
+    fnKeys.forEach((key: string, i: number) => {
+      chunks.push(`FNDA:${fileCov.f[key]},${fnNames[i]}\n`);
+    });
+    const summary: CoverageSummary = getFileSummary(fileCov);
+    chunks.push(`FNF:${summary.functions.total}\n`, `FNH:${summary.functions.covered}\n`);
+    for (const [line, count] of getSortedLineCounts(fileCov)) {
+      chunks.push(`DA:${line},${count}\n`);
+    }
+    chunks.push(`LF:${summary.lines.total}\n`, `LH:${summary.lines.covered}\n`);
+    Object.keys(fileCov.branchMap).forEach((key: string, i: number) => {
+      const counts: number[] = fileCov.b[key];
+      // `-` if the branch was never evaluated
+      const evaluated: boolean = counts.some((count: number) => count > 0);
+      counts.forEach((count: number, j: number) => {
+        chunks.push(`BRDA:${fileCov.branchMap[key].line},${i},${j},${evaluated ? count : "-"}\n`);
+      });
+    });
+    chunks.push(`BRF:${summary.branches.total}\n`, `BRH:${summary.branches.covered}\n`, "end_of_record\n");
+  }
+  return chunks.join("");
+}
+
+/**
+ * Serializes coverage data to Cobertura XML.
+ *
+ * The files are grouped in packages by directory, and both are sorted by path.
+ *
+ * @param fileCovs Coverage data of the files, as an array or keyed by path.
+ * @param options Source root and timestamp.
+ */
+export function toCobertura(
+  fileCovs: ReadonlyArray<IstanbulFileCoverageData> | Readonly<Record<string, IstanbulFileCoverageData>>,
+  options: Readonly<CoberturaOptions> = {},
+): string {
+  const sourceRoot: string = options.sourceRoot !== undefined ? options.sourceRoot : ".";
+  const timestamp: number = options.timestamp !== undefined ? options.timestamp : 0;
+  const sorted: IstanbulFileCoverageData[] = getSortedFileCovs(fileCovs);
+  const total: CoverageSummary = getReportSummary(sorted).total;
+  const packages: Map<string, IstanbulFileCoverageData[]> = new Map();
+  for (const fileCov of sorted) {
+    const dir: string = sysPath.posix.dirname(fileCov.path.split(sysPath.sep).join("/"));
+    let files: IstanbulFileCoverageData[] | undefined = packages.get(dir);
+    if (files === undefined) {
+      files = [];
+      packages.set(dir, files);
+    }
+    files.push(fileCov);
+  }
+
+  const lines: string[] = [
+    "<?xml version=\"1.0\" ?>",
+    "<!DOCTYPE coverage SYSTEM \"http://cobertura.sourceforge.net/xml/coverage-04.dtd\">",
+    `<coverage lines-valid="${total.lines.total}" lines-covered="${total.lines.covered}"`
+    + ` line-rate="${getRate(total.lines)}" branches-valid="${total.branches.total}"`
+    + ` branches-covered="${total.branches.covered}" branch-rate="${getRate(total.branches)}"`
+    + ` timestamp="${timestamp}" complexity="0" version="0.1">`,
+    "  <sources>",
+    `    <source>${escapeXml(sourceRoot)}</source>`,
+    "  </sources>",
+    "  <packages>",
+  ];
+  for (const [dir, files] of packages) {
+    const pkg: CoverageSummary = getReportSummary(files).total;
+    lines.push(
+      `    <package name="${escapeXml(dir === "." ? "main" : dir.replace(/\//g, "."))}"`
+      + ` line-rate="${getRate(pkg.lines)}" branch-rate="${getRate(pkg.branches)}">`,
+      "      <classes>",
+    );
+    for (const fileCov of files) {
+      lines.push(...getCoberturaClass(fileCov));
+    }
+    lines.push("      </classes>", "    </package>");
+  }
+  lines.push("  </packages>", "</coverage>", "");
+  return lines.join("\n");
+}
+
+/**
+ * Formats the summary of the coverage data for a terminal, like the
+ * `text-summary` reporter of Istanbul.
+ *
+ * @param fileCovs Coverage data of the files, as an array or keyed by path.
+ */
+export function toTextSummary(
+  fileCovs: ReadonlyArray<IstanbulFileCoverageData> | Readonly<Record<string, IstanbulFileCoverageData>>,
+): string {
+  const total: CoverageSummary = getReportSummary(fileCovs).total;
+  const formatCounts = (name: string, counts: CoverageCounts): string => {
+    const pct: string = counts.total > 0 ? `${counts.pct}%` : "Unknown%";
+    return `${name.padEnd(13)}: ${pct} ( ${counts.covered}/${counts.total} )`;
+  };
+  return [
+    "",
+    `${"=".repeat(31)} Coverage summary ${"=".repeat(31)}`,
+    formatCounts("Statements", total.statements),
+    formatCounts("Branches", total.branches),
+    formatCounts("Functions", total.functions),
+    formatCounts("Lines", total.lines),
+    "=".repeat(80),
+    "",
+  ].join("\n");
+}
+
+function getCoberturaClass(fileCov: IstanbulFileCoverageData): string[] {
+  const summary: CoverageSummary = getFileSummary(fileCov);
+  const branches: Map<number, LineBranches> = new Map();
+  for (const [key, branch] of Object.entries(fileCov.branchMap)) {
+    const counts: number[] = fileCov.b[key];
+    const old: LineBranches | undefined = branches.get(branch.line);
+    const lineBranches: LineBranches = old !== undefined ? old : {covered: 0, total: 0};
+    lineBranches.covered += counts.filter((count: number) => count > 0).length;
+    lineBranches.total += counts.length;
+    branches.set(branch.line, lineBranches);
+  }
+  const name: string = sysPath.posix.basename(fileCov.path.split(sysPath.sep).join("/"));
+  const lines: string[] = [
+    `        <class name="${escapeXml(name)}" filename="${escapeXml(fileCov.path)}"`
+    + ` line-rate="${getRate(summary.lines)}" branch-rate="${getRate(summary.branches)}">`,
+    "          <methods>",
+  ];
+  Object.keys(fileCov.fnMap).forEach((key: string, i: number) => {
+    const fn: IstanbulFunction = fileCov.fnMap[key];
+    const hits: number = fileCov.f[key];
+    lines.push(
+      `            <method name="${escapeXml(getFunctionName(fn, i))}" hits="${hits}" signature="()V">`,
+      "              <lines>",
+      `                <line number="${fn.line}" hits="${hits}"/>`,
+      "              </lines>",
+      "            </method>",
+    );
+  });
+  lines.push("          </methods>", "          <lines>");
+  for (const [line, hits] of getSortedLineCounts(fileCov)) {
+    const lineBranches: LineBranches | undefined = branches.get(line);
+    if (lineBranches !== undefined && lineBranches.total > 0) {
+      const pct: number = Math.round(100 * lineBranches.covered / lineBranches.total);
+      lines.push(
+        `            <line number="${line}" hits="${hits}" branch="true"`
+        + ` condition-coverage="${pct}% (${lineBranches.covered}/${lineBranches.total})"/>`,
+      );
+    } else {
+      lines.push(`            <line number="${line}" hits="${hits}" branch="false"/>`);
+    }
+  }
+  lines.push("          </lines>", "        </class>");
+  return lines;
+}
+
+function getSortedFileCovs(
+  fileCovs: ReadonlyArray<IstanbulFileCoverageData> | Readonly<Record<string, IstanbulFileCoverageData>>,
+): IstanbulFileCoverageData[] {
+  const result: IstanbulFileCoverageData[] = [...(Array.isArray(fileCovs) ? fileCovs : Object.values(fileCovs))];
+  return result.sort((a: IstanbulFileCoverageData, b: IstanbulFileCoverageData) => {
+    return a.path === b.path ? 0 : (a.path < b.path ? -1 : 1);
+  });
+}
+
+function getSortedLineCounts(fileCov: IstanbulFileCoverageData): Array<[number, number]> {
+  return Object.entries(getFileLineCounts(fileCov))
+    .map(([line, count]: [string, number]): [number, number] => [Number(line), count])
+    .sort((a: [number, number], b: [number, number]) => a[0] - b[0]);
+}
+
+function getFunctionName(fn: IstanbulFunction, index: number): string {
+  return fn.name !== "" ? fn.name : `(anonymous_${index})`;
+}
+
+/**
+ * Returns the ratio of covered items, `1` if there are no items.
+ */
+function getRate(counts: CoverageCounts): number {
+  return counts.pct / 100;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,308 @@
+import { Class, File, IfStatement, isClass, isFunction, Node, SourceLocation, traverse } from "@babel/types";
+import { FunctionCov, RangeCov, ScriptCov } from "@c88/v8-coverage";
+import { INSTANCE_INITIALIZER_NAME, STATIC_INITIALIZER_NAME } from "./class-initializers";
+import { getFunctionStart } from "./functions";
+import { getC8IgnoredLines, getIstanbulHint, isIgnoredLoc } from "./hints";
+import { getLineStarts } from "./lines";
+import { ParserConfig } from "./parser";
+import { parseSource, SourceType } from "./source-type";
+import { IstanbulBranch, IstanbulFileCoverageData, IstanbulFunction } from "./types";
+
+export interface ToScriptCovOptions {
+  data: IstanbulFileCoverageData;
+
+  /**
+   * Source text of the script, the locations of `data` are relative to it.
+   */
+  sourceText: string;
+  sourceType: SourceType;
+
+  /**
+   * Syntax extensions and additional Babel plugins used to parse the source text.
+   */
+  parser?: ParserConfig;
+
+  /**
+   * URL of the script, defaults to `data.path`.
+   */
+  url?: string;
+
+  /**
+   * Default: `"0"`
+   */
+  scriptId?: string;
+}
+
+/**
+ * Nodes of the AST indexed by their offsets (`start:end`).
+ */
+interface NodeIndex {
+  /**
+   * Functions, indexed by their own offsets and by the offsets of their body
+   * (Istanbul's instrumentation uses the location of the body).
+   */
+  functions: Map<string, Node>;
+  ifStatements: Map<string, IfStatement>;
+  classMembers: ClassMember[];
+}
+
+/**
+ * Field or static block of a class, evaluated by a V8 class initializer.
+ */
+interface ClassMember {
+  node: Node;
+  classNode: Class;
+  isStatic: boolean;
+}
+
+/**
+ * Block range, function range or class member range, used to find the
+ * function of each block.
+ */
+interface RangeItem {
+  range: RangeCov;
+
+  /**
+   * Function of the range (the class initializer for class members),
+   * `undefined` for block ranges.
+   */
+  func: FunctionCov | undefined;
+}
+
+/**
+ * Converts an Istanbul FileCoverage data object to a V8 ScriptCoverage object.
+ *
+ * This is the reverse of `istanbulize`: the function ranges are built from
+ * `fnMap` and `f`, the block ranges from the statements and branch arms.
+ * The conversion is lossy (V8 ranges are more precise than statements) but
+ * passing the result to `istanbulize` gives back the same counts for the
+ * statements, functions and branches.
+ *
+ * The script range has a count of `1` if any item was executed. The fields
+ * and static blocks of each class are evaluated by an
+ * `<instance_members_initializer>` or `<static_initializer>` function, whose
+ * range is the class and whose count is the highest count of its blocks.
+ */
+export function toScriptCov(options: Readonly<ToScriptCovOptions>): ScriptCov {
+  const {data, sourceText} = options;
+  const url: string = options.url !== undefined ? options.url : data.path;
+  const ast: File = parseSource(sourceText.trimRight(), options.sourceType, options.parser, url).ast;
+  const index: NodeIndex = indexNodes(ast);
+  const lineStarts: number[] = getLineStarts(sourceText);
+  const getRange = (loc: SourceLocation, count: number): RangeCov => ({
+    startOffset: lineStarts[loc.start.line - 1] + loc.start.column,
+    endOffset: lineStarts[loc.end.line - 1] + loc.end.column,
+    count,
+  });
+
+  const functions: FunctionCov[] = [];
+  for (const key of Object.keys(data.fnMap)) {
+    const fn: IstanbulFunction = data.fnMap[key];
+    const range: RangeCov = getRange(fn.loc, data.f[key] !== undefined ? data.f[key] : 0);
+    const node: Node | undefined = index.functions.get(getOffsetsKey(range));
+    if (node !== undefined) {
+      range.startOffset = getFunctionStart(sourceText, node);
+      range.endOffset = node.end!;
+    }
+    functions.push({functionName: fn.name, ranges: [range], isBlockCoverage: true});
+  }
+
+  const initializers: Map<Class, FunctionCov[]> = new Map();
+  const members: RangeItem[] = [];
+  for (const {node, classNode, isStatic} of index.classMembers) {
+    let classInitializers: FunctionCov[] | undefined = initializers.get(classNode);
+    if (classInitializers === undefined) {
+      classInitializers = [];
+      initializers.set(classNode, classInitializers);
+    }
+    const functionName: string = isStatic ? STATIC_INITIALIZER_NAME : INSTANCE_INITIALIZER_NAME;
+    let initializer: FunctionCov | undefined = classInitializers.find((cur) => cur.functionName === functionName);
+    if (initializer === undefined) {
+      initializer = {
+        functionName,
+        ranges: [{startOffset: classNode.start!, endOffset: classNode.end!, count: 0}],
+        isBlockCoverage: true,
+      };
+      classInitializers.push(initializer);
+    }
+    members.push({range: {startOffset: node.start!, endOffset: node.end!, count: 0}, func: initializer});
+  }
+
+  const blocks: RangeCov[] = [];
+  const statementCounts: Map<string, number> = new Map();
+  for (const key of Object.keys(data.statementMap)) {
+    const range: RangeCov = getRange(data.statementMap[key], data.s[key] !== undefined ? data.s[key] : 0);
+    statementCounts.set(getOffsetsKey(range), range.count);
+    blocks.push(range);
+  }
+  const ignoredLines: Set<number> = getC8IgnoredLines(sourceText);
+  for (const key of Object.keys(data.branchMap)) {
+    const branch: IstanbulBranch = data.branchMap[key];
+    const counts: number[] = data.b[key] !== undefined ? data.b[key] : [];
+    if (branch.type === "if") {
+      const ifRange: RangeCov = getRange(branch.loc, 0);
+      const ifStatement: IfStatement | undefined = index.ifStatements.get(getOffsetsKey(ifRange));
+      if (ifStatement !== undefined) {
+        const ifCount: number | undefined = statementCounts.get(getOffsetsKey(ifRange));
+        blocks.push(...getIfArmRanges(ifStatement, counts, ifCount, ignoredLines));
+      }
+    } else {
+      for (const [i, location] of branch.locations.entries()) {
+        blocks.push(getRange(location, counts[i] !== undefined ? counts[i] : 0));
+      }
+    }
+  }
+
+  const executed: boolean = [
+    ...Object.keys(data.s).map((key: string) => data.s[key]),
+    ...Object.keys(data.f).map((key: string) => data.f[key]),
+    ...Object.keys(data.b).map((key: string) => Math.max(0, ...data.b[key])),
+  ].some((count: number) => count > 0);
+  const root: FunctionCov = {
+    functionName: "",
+    ranges: [{startOffset: 0, endOffset: sourceText.length, count: executed ? 1 : 0}],
+    isBlockCoverage: true,
+  };
+  assignBlocks(root, functions, members, blocks);
+  for (const classInitializers of initializers.values()) {
+    for (const initializer of classInitializers) {
+      initializer.ranges[0].count = Math.max(0, ...initializer.ranges.map((range: RangeCov) => range.count));
+      functions.push(initializer);
+    }
+  }
+
+  return {
+    scriptId: options.scriptId !== undefined ? options.scriptId : "0",
+    url,
+    functions: [root, ...functions],
+  };
+}
+
+function indexNodes(ast: File): NodeIndex {
+  const functions: Map<string, Node> = new Map();
+  const ifStatements: Map<string, IfStatement> = new Map();
+  const classMembers: ClassMember[] = [];
+  traverse(ast.program, {
+    enter: (node: Node) => {
+      if (isFunction(node)) {
+        functions.set(`${node.body.start}:${node.body.end}`, node);
+        functions.set(`${node.start}:${node.end}`, node);
+      } else if (node.type === "IfStatement") {
+        ifStatements.set(`${node.start}:${node.end}`, node);
+      } else if (isClass(node)) {
+        for (const member of node.body.body) {
+          switch (member.type) {
+            case "ClassProperty":
+            case "ClassPrivateProperty":
+            case "ClassAccessorProperty":
+              classMembers.push({node: member, classNode: node, isStatic: member.static});
+              break;
+            case "StaticBlock":
+              classMembers.push({node: member, classNode: node, isStatic: true});
+              break;
+            default:
+              break;
+          }
+        }
+      }
+    },
+  });
+  return {functions, ifStatements, classMembers};
+}
+
+/**
+ * Returns the ranges of the arms of an `if` statement.
+ *
+ * `istanbulize` derives the count of an implicit `else` from the count of the
+ * `if` statement, it is only emitted as a range when the consequent is
+ * ignored (its count is then the rest of the count of the statement).
+ *
+ * @param ifStatement Node of the `if` statement.
+ * @param counts Counts of the arms that are not ignored.
+ * @param ifCount Count of the `if` statement, if it is a known statement.
+ * @param ignoredLines Lines ignored by c8 hints.
+ */
+function getIfArmRanges(
+  ifStatement: IfStatement,
+  counts: ReadonlyArray<number>,
+  ifCount: number | undefined,
+  ignoredLines: ReadonlySet<number>,
+): RangeCov[] {
+  const {consequent, alternate} = ifStatement;
+  const ranges: RangeCov[] = [];
+  const consequentIgnored: boolean = getIstanbulHint(ifStatement) === "if"
+    || getIstanbulHint(consequent) === "next"
+    || isIgnoredLoc(ignoredLines, consequent.loc!);
+  const consequentCount: number | undefined = consequentIgnored ? undefined : counts[0];
+  const alternateCount: number | undefined = consequentIgnored ? counts[0] : counts[1];
+  if (consequentCount !== undefined) {
+    ranges.push({startOffset: consequent.start!, endOffset: consequent.end!, count: consequentCount});
+  }
+  if (alternateCount !== undefined) {
+    if (alternate !== null) {
+      ranges.push({startOffset: alternate.start!, endOffset: alternate.end!, count: alternateCount});
+    } else if (consequentCount === undefined) {
+      const count: number = ifCount !== undefined ? Math.max(ifCount - alternateCount, 0) : 0;
+      ranges.push({startOffset: consequent.start!, endOffset: consequent.end!, count});
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Adds each block range to the innermost function or class member containing
+ * it.
+ *
+ * A block with the same offsets as a function belongs to the enclosing
+ * function (for example an arrow function used as an arm of a branch), while
+ * a block with the same offsets as a class member belongs to its initializer.
+ * Blocks with the same offsets as a previous block of the same function are
+ * dropped.
+ */
+function assignBlocks(
+  root: FunctionCov,
+  functions: ReadonlyArray<FunctionCov>,
+  members: ReadonlyArray<RangeItem>,
+  blocks: ReadonlyArray<RangeCov>,
+): void {
+  const items: RangeItem[] = [
+    ...members,
+    ...blocks.map((range: RangeCov): RangeItem => ({range, func: undefined})),
+    ...functions.map((func: FunctionCov): RangeItem => ({range: func.ranges[0], func})),
+  ];
+  const sorted: RangeItem[] = [...items.keys()]
+    .sort((a: number, b: number) => {
+      const aRange: RangeCov = items[a].range;
+      const bRange: RangeCov = items[b].range;
+      return aRange.startOffset - bRange.startOffset || bRange.endOffset - aRange.endOffset || a - b;
+    })
+    .map((i: number) => items[i]);
+
+  const stack: RangeItem[] = [{range: root.ranges[0], func: root}];
+  const seen: Map<FunctionCov, Set<string>> = new Map();
+  for (const item of sorted) {
+    const {range} = item;
+    while (stack.length > 1 && stack[stack.length - 1].range.endOffset < range.endOffset) {
+      stack.pop();
+    }
+    if (item.func !== undefined) {
+      stack.push(item);
+      continue;
+    }
+    const func: FunctionCov = stack[stack.length - 1].func!;
+    let funcSeen: Set<string> | undefined = seen.get(func);
+    if (funcSeen === undefined) {
+      funcSeen = new Set();
+      seen.set(func, funcSeen);
+    }
+    const key: string = getOffsetsKey(range);
+    if (!funcSeen.has(key)) {
+      funcSeen.add(key);
+      func.ranges.push(range);
+    }
+  }
+}
+
+function getOffsetsKey(range: RangeCov): string {
+  return `${range.startOffset}:${range.endOffset}`;
+}
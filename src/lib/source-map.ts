@@ -0,0 +1,213 @@
+import { SourceLocation } from "@babel/types";
+import { fromSysPath, toSysPath } from "furi";
+import sysPath from "path";
+import { MappedPosition, MappingItem, RawSourceMap, SourceMapConsumer } from "source-map";
+import url from "url";
+import { IstanbulBranch, IstanbulFileCoverageData, IstanbulFunction } from "./types";
+
+export { RawSourceMap } from "source-map";
+
+/**
+ * Matches the last `sourceMappingURL` comment using a base64 `data:` URL.
+ */
+const INLINE_SOURCE_MAP: RegExp = /[#@]\s*sourceMappingURL=data:application\/json[^,]*;base64,([A-Za-z0-9+/=]+)\s*(?:\*\/)?\s*$/;
+
+/**
+ * Reads the source map embedded in the source text as a base64 `data:` URL.
+ *
+ * @param sourceText Source text of the generated script.
+ * @return The parsed source map, or `undefined` if there is no inline source map.
+ */
+export function getInlineSourceMap(sourceText: string): RawSourceMap | undefined {
+  const match: RegExpExecArray | null = INLINE_SOURCE_MAP.exec(sourceText.trimRight());
+  if (match === null) {
+    return undefined;
+  }
+  return JSON.parse(Buffer.from(match[1], "base64").toString("UTF-8"));
+}
+
+interface MappedLocation {
+  source: string;
+  loc: SourceLocation;
+}
+
+/**
+ * Remaps the coverage of a generated file to its original sources.
+ *
+ * The source paths are resolved relative to the path of the generated file,
+ * `file://` URLs are converted to system paths. Items without a mapping, or
+ * spanning multiple original files, are dropped. The items keep their key and
+ * the original files keep the hash of the generated file, so the remapped
+ * coverage of the same generated file can be merged. The count of an original
+ * line (`l`) is the smallest count of the generated lines mapped to it.
+ *
+ * @param data Coverage data for the generated file.
+ * @param sourceMap Source map of the generated file.
+ * @return Coverage data for each original file, keyed by path.
+ */
+export function remapFileCoverage(
+  data: Readonly<IstanbulFileCoverageData>,
+  sourceMap: Readonly<RawSourceMap>,
+): Record<string, IstanbulFileCoverageData> {
+  const consumer: SourceMapConsumer = new SourceMapConsumer(sourceMap as RawSourceMap);
+  const result: Record<string, IstanbulFileCoverageData> = Object.create(null);
+
+  function getFileCoverage(source: string): IstanbulFileCoverageData {
+    const path: string = resolveSourcePath(data.path, source);
+    let fileCov: IstanbulFileCoverageData | undefined = result[path];
+    if (fileCov === undefined) {
+      fileCov = {path, statementMap: {}, s: {}, fnMap: {}, f: {}, branchMap: {}, b: {}};
+      if (data.hash !== undefined) {
+        fileCov.hash = data.hash;
+      }
+      result[path] = fileCov;
+    }
+    return fileCov;
+  }
+
+  for (const key of Object.keys(data.statementMap)) {
+    const mapped: MappedLocation | undefined = mapLocation(consumer, data.statementMap[key]);
+    if (mapped === undefined) {
+      continue;
+    }
+    const fileCov: IstanbulFileCoverageData = getFileCoverage(mapped.source);
+    fileCov.statementMap[key] = mapped.loc;
+    fileCov.s[key] = data.s[key];
+  }
+
+  for (const key of Object.keys(data.fnMap)) {
+    const func: IstanbulFunction = data.fnMap[key];
+    const decl: MappedLocation | undefined = mapLocation(consumer, func.decl);
+    const loc: MappedLocation | undefined = mapLocation(consumer, func.loc);
+    if (decl === undefined || loc === undefined || decl.source !== loc.source) {
+      continue;
+    }
+    const fileCov: IstanbulFileCoverageData = getFileCoverage(loc.source);
+    fileCov.fnMap[key] = {name: func.name, decl: decl.loc, loc: loc.loc, line: loc.loc.start.line};
+    fileCov.f[key] = data.f[key];
+  }
+
+  for (const key of Object.keys(data.branchMap)) {
+    const branch: IstanbulBranch = data.branchMap[key];
+    const loc: MappedLocation | undefined = mapLocation(consumer, branch.loc);
+    if (loc === undefined) {
+      continue;
+    }
+    const locations: SourceLocation[] = [];
+    for (const location of branch.locations) {
+      const mapped: MappedLocation | undefined = mapLocation(consumer, location);
+      if (mapped === undefined || mapped.source !== loc.source) {
+        break;
+      }
+      locations.push(mapped.loc);
+    }
+    if (locations.length !== branch.locations.length) {
+      continue;
+    }
+    const fileCov: IstanbulFileCoverageData = getFileCoverage(loc.source);
+    fileCov.branchMap[key] = {type: branch.type, line: loc.loc.start.line, loc: loc.loc, locations};
+    fileCov.b[key] = [...data.b[key]];
+  }
+
+  const lineCounts: Record<number, number> | undefined = data.l;
+  if (lineCounts !== undefined) {
+    consumer.eachMapping((mapping: MappingItem): void => {
+      const count: number | undefined = lineCounts[mapping.generatedLine];
+      // `source` is `null` for the mappings without an original position
+      if (count === undefined || mapping.source === null) {
+        return;
+      }
+      const fileCov: IstanbulFileCoverageData = getFileCoverage(mapping.source);
+      if (fileCov.l === undefined) {
+        fileCov.l = Object.create(null) as Record<number, number>;
+      }
+      const old: number | undefined = fileCov.l[mapping.originalLine];
+      fileCov.l[mapping.originalLine] = old !== undefined ? Math.min(old, count) : count;
+    });
+    for (const fileCov of Object.values(result)) {
+      if (fileCov.l === undefined) {
+        fileCov.l = Object.create(null) as Record<number, number>;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolves the path of an original source relative to the path of the generated file.
+ *
+ * @param generatedPath System path or URL of the generated file.
+ * @param source Source of the source map, resolved against its `sourceRoot`.
+ * @return System path for the local files, URL otherwise.
+ */
+function resolveSourcePath(generatedPath: string, source: string): string {
+  const base: string = sysPath.isAbsolute(generatedPath) ? fromSysPath(generatedPath).href : generatedPath;
+  const resolved: string = url.resolve(base, source);
+  return resolved.startsWith("file:") ? toSysPath(resolved) : resolved;
+}
+
+function mapLocation(consumer: SourceMapConsumer, loc: SourceLocation): MappedLocation | undefined {
+  const start: MappedPosition | undefined = originalStartPositionFor(consumer, loc.start.line, loc.start.column);
+  const end: MappedPosition | undefined = originalEndPositionFor(consumer, loc.end.line, loc.end.column);
+  if (start === undefined || end === undefined || start.source !== end.source) {
+    return undefined;
+  }
+  if (end.line < start.line || (end.line === start.line && end.column < start.column)) {
+    return undefined;
+  }
+  return {
+    source: start.source,
+    loc: {
+      start: {line: start.line, column: start.column},
+      end: {line: end.line, column: end.column},
+    },
+  };
+}
+
+function originalStartPositionFor(
+  consumer: SourceMapConsumer,
+  line: number,
+  column: number,
+): MappedPosition | undefined {
+  let pos: MappedPosition = consumer.originalPositionFor({
+    line,
+    column,
+    bias: SourceMapConsumer.GREATEST_LOWER_BOUND,
+  });
+  if (pos.source === null) {
+    pos = consumer.originalPositionFor({line, column, bias: SourceMapConsumer.LEAST_UPPER_BOUND});
+  }
+  return pos.source !== null ? pos : undefined;
+}
+
+/**
+ * Returns the original position of the end of a generated range (exclusive).
+ *
+ * The mapping of the last character only gives the start of its segment in
+ * the original source, the end is the start of the following segment when it
+ * is on the same original line.
+ */
+function originalEndPositionFor(
+  consumer: SourceMapConsumer,
+  line: number,
+  column: number,
+): MappedPosition | undefined {
+  const lastChar: MappedPosition | undefined = originalStartPositionFor(consumer, line, Math.max(column - 1, 0));
+  if (lastChar === undefined) {
+    return undefined;
+  }
+  const nextGenerated = consumer.generatedPositionFor({
+    source: lastChar.source,
+    line: lastChar.line,
+    column: lastChar.column + 1,
+    bias: SourceMapConsumer.LEAST_UPPER_BOUND,
+  });
+  if (nextGenerated.line !== null) {
+    const next: MappedPosition = consumer.originalPositionFor({line: nextGenerated.line, column: nextGenerated.column});
+    if (next.source === lastChar.source && next.line === lastChar.line && next.column > lastChar.column) {
+      return next;
+    }
+  }
+  return {...lastChar, column: lastChar.column + 1};
+}
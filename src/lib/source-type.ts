@@ -0,0 +1,132 @@
+import { File } from "@babel/types";
+import fs from "fs";
+import { ParsedScriptUrl, parseSys as parseNodeScriptUrl } from "node-script-url";
+import sysPath from "path";
+import { ParserConfig, parseSourceText } from "./parser";
+
+export enum SourceType {
+  Script = "script",
+  Module = "module",
+
+  /**
+   * Detect the source type from the URL of the script, or from its syntax.
+   */
+  Auto = "auto",
+}
+
+export type ResolvedSourceType = SourceType.Script | SourceType.Module;
+
+export interface ParsedSource {
+  ast: File;
+  sourceType: ResolvedSourceType;
+}
+
+/**
+ * Returns the source type of a file, following Node's rules.
+ *
+ * `.mjs` files are modules and `.cjs` files are scripts. The type of `.js`
+ * files is the `"type"` of the nearest `package.json` (scripts by default).
+ *
+ * @param path System path of the file.
+ * @param packageTypes Cache of the `"type"` of the nearest `package.json` of
+ *                     each directory, shared between the calls of a conversion.
+ * @return Source type, or `undefined` for other extensions or if no `package.json` was found.
+ */
+export function getFileSourceType(
+  path: string,
+  packageTypes?: Map<string, ResolvedSourceType | undefined>,
+): ResolvedSourceType | undefined {
+  switch (sysPath.extname(path)) {
+    case ".mjs":
+      return SourceType.Module;
+    case ".cjs":
+      return SourceType.Script;
+    case ".js":
+      return getPackageSourceType(sysPath.dirname(path), packageTypes !== undefined ? packageTypes : new Map());
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parses the source text of a script, detecting its source type for `auto`.
+ *
+ * The `auto` source type uses the extension and nearest `package.json` of
+ * `file://` URLs. Otherwise, the source text is parsed as a module then as a
+ * script if it is not a valid module.
+ *
+ * @param sourceText Source text of the script.
+ * @param sourceType Source type of the script.
+ * @param config Parser configuration.
+ * @param url URL of the script, used to detect the source type and in error messages.
+ */
+export function parseSource(
+  sourceText: string,
+  sourceType: SourceType,
+  config?: Readonly<ParserConfig>,
+  url?: string,
+): ParsedSource {
+  if (sourceType !== SourceType.Auto) {
+    return {ast: parseSourceText(sourceText, sourceType === SourceType.Module, config, url), sourceType};
+  }
+  const urlInfo: ParsedScriptUrl | undefined = url !== undefined && url !== "" ? parseNodeScriptUrl(url) : undefined;
+  const fileSourceType: ResolvedSourceType | undefined = urlInfo !== undefined && urlInfo.isFileUrl
+    ? getFileSourceType(urlInfo.path)
+    : undefined;
+  if (fileSourceType !== undefined) {
+    return parseSource(sourceText, fileSourceType, config, url);
+  }
+  let ast: File;
+  try {
+    ast = parseSourceText(sourceText, true, config, url);
+  } catch (err) {
+    return parseSource(sourceText, SourceType.Script, config, url);
+  }
+  return {ast, sourceType: SourceType.Module};
+}
+
+/**
+ * Returns the `"type"` of the nearest `package.json`.
+ *
+ * @param dir System path of the directory where the search starts.
+ * @param packageTypes Cache of the result for each directory, updated with the
+ *                     directories that were searched.
+ */
+function getPackageSourceType(
+  dir: string,
+  packageTypes: Map<string, ResolvedSourceType | undefined>,
+): ResolvedSourceType | undefined {
+  const searched: string[] = [];
+  const setResult = (result: ResolvedSourceType | undefined): ResolvedSourceType | undefined => {
+    for (const searchedDir of searched) {
+      packageTypes.set(searchedDir, result);
+    }
+    return result;
+  };
+  for (let cur: string = dir; ; cur = sysPath.dirname(cur)) {
+    if (packageTypes.has(cur)) {
+      return setResult(packageTypes.get(cur));
+    }
+    searched.push(cur);
+    let json: string | undefined;
+    try {
+      json = fs.readFileSync(sysPath.join(cur, "package.json")).toString("UTF-8");
+    } catch (err) {
+      if (err.code !== "ENOENT" && err.code !== "ENOTDIR") {
+        throw err;
+      }
+    }
+    if (json !== undefined) {
+      let pkg: any;
+      try {
+        pkg = JSON.parse(json);
+      } catch (err) {
+        return setResult(undefined);
+      }
+      return setResult(pkg !== null && pkg.type === "module" ? SourceType.Module : SourceType.Script);
+    }
+    if (sysPath.dirname(cur) === cur) {
+      return setResult(undefined);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { RangeCov } from "@c88/v8-coverage";
+
+/**
+ * Offsets and count of a statement.
+ */
+export interface StatementSpan {
+  start: number;
+  end: number;
+
+  /**
+   * `undefined` if the statement is ignored.
+   */
+  count: number | undefined;
+}
+
+/**
+ * Returns the regions of statements with a count different from the count of
+ * their statement, for example the right operand of `&&` or an arm of `?:`.
+ *
+ * A region is a segment of the flattened V8 ranges of a function that is
+ * strictly inside a statement and does not contain any other statement (their
+ * own counts already report it). Segments in ignored statements are skipped.
+ *
+ * @param statements Statements of the function, sorted by start offset (outer statements first).
+ * @param segments Flattened ranges of the function, sorted by offset.
+ * @return Regions with their count, sorted by offset.
+ */
+export function getSubStatementRegions(
+  statements: ReadonlyArray<StatementSpan>,
+  segments: ReadonlyArray<RangeCov>,
+): RangeCov[] {
+  const regions: RangeCov[] = [];
+  // Statements containing the start of the current segment, innermost last
+  const stack: StatementSpan[] = [];
+  let next: number = 0;
+  for (const segment of segments) {
+    while (next < statements.length && statements[next].start <= segment.startOffset) {
+      popEnded(stack, statements[next].start);
+      stack.push(statements[next]);
+      next++;
+    }
+    popEnded(stack, segment.startOffset);
+    if (next < statements.length && statements[next].start < segment.endOffset) {
+      // Contains a statement
+      continue;
+    }
+    let parent: StatementSpan | undefined;
+    let containsStatement: boolean = false;
+    for (let i: number = stack.length - 1; i >= 0; i--) {
+      if (stack[i].end >= segment.endOffset) {
+        parent = stack[i];
+        break;
+      } else if (stack[i].start >= segment.startOffset) {
+        containsStatement = true;
+      }
+    }
+    if (
+      !containsStatement
+      && parent !== undefined
+      && parent.count !== undefined
+      && parent.start < segment.startOffset
+      && parent.count !== segment.count
+    ) {
+      regions.push(segment);
+    }
+  }
+  return regions;
+}
+
+/**
+ * Removes the statements ending at or before the offset from the top of the stack.
+ */
+function popEnded(stack: StatementSpan[], offset: number): void {
+  while (stack.length > 0 && stack[stack.length - 1].end <= offset) {
+    stack.pop();
+  }
+}
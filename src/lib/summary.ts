@@ -0,0 +1,229 @@
+import minimatch from "minimatch";
+import { IstanbulFileCoverageData } from "./types";
+
+export enum CoverageMetric {
+  Statements = "statements",
+  Functions = "functions",
+  Branches = "branches",
+  Lines = "lines",
+}
+
+export interface CoverageCounts {
+  total: number;
+  covered: number;
+
+  /**
+   * Percentage of covered items, truncated to 2 decimals like Istanbul.
+   * `100` if there are no items.
+   */
+  pct: number;
+}
+
+export type CoverageSummary = Record<CoverageMetric, CoverageCounts>;
+
+export interface ReportSummary {
+  /**
+   * Summary of all the files.
+   */
+  total: CoverageSummary;
+
+  /**
+   * Summary of each file, keyed by path.
+   */
+  files: Record<string, CoverageSummary>;
+}
+
+/**
+ * Minimum percentage of each metric.
+ */
+export type CoverageThresholds = Partial<Record<CoverageMetric, number>>;
+
+export interface ThresholdConfig {
+  /**
+   * Thresholds for the summary of all the files.
+   */
+  global?: CoverageThresholds;
+
+  /**
+   * Thresholds for the summary of each file.
+   */
+  perFile?: CoverageThresholds;
+
+  /**
+   * Thresholds for the summary of the files matching each glob pattern.
+   *
+   * The patterns are matched against the paths of the report.
+   */
+  patterns?: Record<string, CoverageThresholds>;
+}
+
+export enum ThresholdScope {
+  Global = "global",
+  File = "file",
+  Pattern = "pattern",
+}
+
+export interface ThresholdViolation {
+  scope: ThresholdScope;
+
+  /**
+   * Path of the file, for the `file` scope.
+   */
+  path?: string;
+
+  /**
+   * Glob pattern, for the `pattern` scope.
+   */
+  pattern?: string;
+
+  metric: CoverageMetric;
+  threshold: number;
+  actual: number;
+}
+
+const METRICS: ReadonlyArray<CoverageMetric> = [
+  CoverageMetric.Statements,
+  CoverageMetric.Functions,
+  CoverageMetric.Branches,
+  CoverageMetric.Lines,
+];
+
+/**
+ * Computes the covered and total counts of each metric of a file.
+ *
+ * The lines are the `l` field if present, otherwise they are derived from the
+ * statements like Istanbul.
+ */
+export function getFileSummary(fileCov: Readonly<IstanbulFileCoverageData>): CoverageSummary {
+  const branchCounts: number[] = [];
+  for (const counts of Object.values(fileCov.b)) {
+    branchCounts.push(...counts);
+  }
+  return {
+    statements: getCounts(Object.values(fileCov.s)),
+    functions: getCounts(Object.values(fileCov.f)),
+    branches: getCounts(branchCounts),
+    lines: getCounts(Object.values(getFileLineCounts(fileCov))),
+  };
+}
+
+/**
+ * Computes the summary of each file and of all the files.
+ *
+ * The summaries of files with the same path (for example different source
+ * texts) are summed.
+ *
+ * @param fileCovs Coverage data of the files, as an array or keyed by path.
+ */
+export function getReportSummary(
+  fileCovs: ReadonlyArray<IstanbulFileCoverageData> | Readonly<Record<string, IstanbulFileCoverageData>>,
+): ReportSummary {
+  const files: Record<string, CoverageSummary> = Object.create(null);
+  for (const fileCov of Array.isArray(fileCovs) ? fileCovs : Object.values(fileCovs)) {
+    const summary: CoverageSummary = getFileSummary(fileCov);
+    const old: CoverageSummary | undefined = files[fileCov.path];
+    files[fileCov.path] = old !== undefined ? sumSummaries([old, summary]) : summary;
+  }
+  return {total: sumSummaries(Object.values(files)), files};
+}
+
+/**
+ * Checks the summary of a report against minimum percentages.
+ *
+ * @param summary Summary of the report.
+ * @param config Global, per-file and per-pattern thresholds.
+ * @return Violations, in the order: global, per-file (sorted by path), per-pattern.
+ */
+export function checkThresholds(summary: Readonly<ReportSummary>, config: Readonly<ThresholdConfig>): ThresholdViolation[] {
+  const violations: ThresholdViolation[] = [];
+  if (config.global !== undefined) {
+    for (const violation of getViolations(summary.total, config.global)) {
+      violations.push({scope: ThresholdScope.Global, ...violation});
+    }
+  }
+  const paths: string[] = Object.keys(summary.files).sort();
+  if (config.perFile !== undefined) {
+    for (const path of paths) {
+      for (const violation of getViolations(summary.files[path], config.perFile)) {
+        violations.push({scope: ThresholdScope.File, path, ...violation});
+      }
+    }
+  }
+  if (config.patterns !== undefined) {
+    for (const [pattern, thresholds] of Object.entries(config.patterns)) {
+      const matched: CoverageSummary[] = paths
+        .filter((path: string) => minimatch(path, pattern, {dot: true}))
+        .map((path: string) => summary.files[path]);
+      for (const violation of getViolations(sumSummaries(matched), thresholds)) {
+        violations.push({scope: ThresholdScope.Pattern, pattern, ...violation});
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Returns the hit counts of the lines of a file, keyed by 1-based line index.
+ *
+ * Without the `l` field, the count of a line is the greatest count of the
+ * statements starting on it, like Istanbul.
+ */
+export function getFileLineCounts(fileCov: Readonly<IstanbulFileCoverageData>): Record<number, number> {
+  if (fileCov.l !== undefined) {
+    return fileCov.l;
+  }
+  const result: Record<number, number> = Object.create(null);
+  for (const [key, loc] of Object.entries(fileCov.statementMap)) {
+    const count: number = fileCov.s[key];
+    const old: number | undefined = result[loc.start.line];
+    if (old === undefined || old < count) {
+      result[loc.start.line] = count;
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the counts with their percentage.
+ */
+export function toCounts(total: number, covered: number): CoverageCounts {
+  // Same rounding as `istanbul-lib-coverage`
+  const pct: number = total > 0 ? Math.floor((1000 * 100 * covered) / total / 10) / 100 : 100;
+  return {total, covered, pct};
+}
+
+/**
+ * Sums the counts of each metric of the summaries.
+ */
+export function sumSummaries(summaries: ReadonlyArray<CoverageSummary>): CoverageSummary {
+  const result: Partial<CoverageSummary> = {};
+  for (const metric of METRICS) {
+    let total: number = 0;
+    let covered: number = 0;
+    for (const summary of summaries) {
+      total += summary[metric].total;
+      covered += summary[metric].covered;
+    }
+    result[metric] = toCounts(total, covered);
+  }
+  return result as CoverageSummary;
+}
+
+function getCounts(counts: ReadonlyArray<number>): CoverageCounts {
+  const covered: number = counts.filter((count: number) => count > 0).length;
+  return toCounts(counts.length, covered);
+}
+
+function getViolations(
+  summary: Readonly<CoverageSummary>,
+  thresholds: Readonly<CoverageThresholds>,
+): Array<Pick<ThresholdViolation, "metric" | "threshold" | "actual">> {
+  const result: Array<Pick<ThresholdViolation, "metric" | "threshold" | "actual">> = [];
+  for (const metric of METRICS) {
+    const threshold: number | undefined = thresholds[metric];
+    if (threshold !== undefined && summary[metric].pct < threshold) {
+      result.push({metric, threshold, actual: summary[metric].pct});
+    }
+  }
+  return result;
+}
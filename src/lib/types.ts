@@ -49,6 +49,23 @@ export interface IstanbulFileCoverageData<S extends keyof any = keyof any, F ext
    * The file path for which coverage is being tracked.
    */
   path: string;
+
+  /**
+   * Hit counts for lines, keyed by 1-based line index.
+   *
+   * Istanbul derives line coverage from statements when this map is missing.
+   */
+  l?: Record<number, number>;
+
+  /**
+   * Hash of the source text, used to detect coverage data for different sources.
+   */
+  hash?: string;
+
+  /**
+   * Source type used to parse the source text, when it was detected (`auto` source type).
+   */
+  sourceType?: "script" | "module";
 }
 
 /**
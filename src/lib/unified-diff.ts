@@ -0,0 +1,130 @@
+/**
+ * Changes of a file in a unified diff.
+ */
+export interface FileDiff {
+  /**
+   * Path before the change, `undefined` for added files.
+   */
+  oldPath: string | undefined;
+
+  /**
+   * Path after the change, `undefined` for deleted files.
+   */
+  newPath: string | undefined;
+
+  hunks: Hunk[];
+
+  /**
+   * 1-based indexes of the added lines, in the new file.
+   */
+  addedLines: Set<number>;
+
+  /**
+   * New line of the old lines inside the hunks, `undefined` for the deleted lines.
+   */
+  lineMap: Map<number, number | undefined>;
+}
+
+export interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+const HUNK_HEADER: RegExp = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses the files of a unified diff, such as the output of `git diff`.
+ *
+ * The `a/` and `b/` prefixes of git are removed from the paths.
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const result: FileDiff[] = [];
+  let oldPath: string | undefined;
+  let file: FileDiff | undefined;
+  // Lines remaining in the current hunk
+  let oldRemaining: number = 0;
+  let newRemaining: number = 0;
+  let oldLine: number = 0;
+  let newLine: number = 0;
+  for (const line of diff.split(/\r?\n/)) {
+    if (oldRemaining > 0 || newRemaining > 0) {
+      if (file === undefined) {
+        throw new Error("AssertionError: Expected a file for the hunk");
+      }
+      // Some tools remove the space of empty context lines
+      switch (line.length > 0 ? line[0] : " ") {
+        case " ":
+          file.lineMap.set(oldLine++, newLine++);
+          oldRemaining--;
+          newRemaining--;
+          break;
+        case "-":
+          file.lineMap.set(oldLine++, undefined);
+          oldRemaining--;
+          break;
+        case "+":
+          file.addedLines.add(newLine++);
+          newRemaining--;
+          break;
+        case "\\":
+          // `\ No newline at end of file`
+          break;
+        default:
+          throw new Error(`InvalidDiff: Unexpected line in hunk: ${JSON.stringify(line)}`);
+      }
+      continue;
+    }
+    if (line.startsWith("--- ")) {
+      oldPath = parsePath(line.substring(4));
+    } else if (line.startsWith("+++ ")) {
+      file = {oldPath, newPath: parsePath(line.substring(4)), hunks: [], addedLines: new Set(), lineMap: new Map()};
+      result.push(file);
+    } else if (file !== undefined && HUNK_HEADER.test(line)) {
+      const match: RegExpExecArray = HUNK_HEADER.exec(line)!;
+      const hunk: Hunk = {
+        oldStart: Number(match[1]),
+        oldCount: match[2] !== undefined ? Number(match[2]) : 1,
+        newStart: Number(match[3]),
+        newCount: match[4] !== undefined ? Number(match[4]) : 1,
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldCount;
+      newRemaining = hunk.newCount;
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the new line of an old line, or `undefined` if it was deleted.
+ *
+ * @param file Changes of the file.
+ * @param oldLine 1-based index of the line before the change.
+ */
+export function mapDiffLine(file: Readonly<FileDiff>, oldLine: number): number | undefined {
+  if (file.lineMap.has(oldLine)) {
+    return file.lineMap.get(oldLine);
+  }
+  let offset: number = 0;
+  for (const {oldStart, oldCount, newCount} of file.hunks) {
+    // A hunk without old lines inserts its lines after `oldStart`
+    const lastOldLine: number = oldCount === 0 ? oldStart : oldStart + oldCount - 1;
+    if (lastOldLine < oldLine) {
+      offset += newCount - oldCount;
+    }
+  }
+  return oldLine + offset;
+}
+
+function parsePath(header: string): string | undefined {
+  // `diff -u` appends a timestamp after a tab
+  const path: string = header.split("\t")[0];
+  if (path === "/dev/null") {
+    return undefined;
+  }
+  return /^[ab]\//.test(path) ? path.substring(2) : path;
+}
@@ -0,0 +1,189 @@
+import { FunctionCov, RangeCov, ScriptCov } from "@c88/v8-coverage";
+import Module from "module";
+
+/**
+ * Prefix and suffix added around the source text before it is compiled by V8.
+ *
+ * Each part is either the text of the wrapper or its length. A negative
+ * prefix length is the number of characters removed from the start of the
+ * source text (for example a shebang or a BOM).
+ */
+export type WrapperLike = [string | number, string | number];
+
+/**
+ * Wrappers of common module loaders.
+ */
+export enum WrapperPreset {
+  /**
+   * `Module.wrapper` of the current Node version.
+   */
+  NodeCjs = "node-cjs",
+
+  /**
+   * Module wrapper of `jest-runtime`, without extra globals.
+   */
+  Jest = "jest",
+
+  /**
+   * Source text compiled as a function body (`vm.compileFunction`), as used
+   * by recent Node versions: the offsets are not shifted.
+   */
+  VmCompileFunction = "vm.compileFunction",
+}
+
+// https://github.com/facebook/jest/blob/v24.8.0/packages/jest-runtime/src/index.ts#L1000
+const JEST_WRAPPER: WrapperLike = [
+  "({\"Object.<anonymous>\":function(module,exports,require,__dirname,__filename,global,jest){",
+  "\n}});",
+];
+
+const DEFAULT_PRESETS: ReadonlyArray<WrapperPreset> = [
+  WrapperPreset.VmCompileFunction,
+  WrapperPreset.NodeCjs,
+  WrapperPreset.Jest,
+];
+
+const SHEBANG: RegExp = /^#![^\r\n]*/;
+
+/**
+ * Returns the wrapper of a preset.
+ */
+export function getPresetWrapper(preset: WrapperPreset): WrapperLike {
+  switch (preset) {
+    case WrapperPreset.NodeCjs:
+      return (Module as any).wrapper;
+    case WrapperPreset.Jest:
+      return JEST_WRAPPER;
+    case WrapperPreset.VmCompileFunction:
+      return [0, 0];
+    default:
+      throw new Error(`AssertionError: Unexpected \`preset\`: ${preset}`);
+  }
+}
+
+/**
+ * Detects the wrapper of a script by comparing the length of its V8 root
+ * range with the length of its source text.
+ *
+ * Each candidate is also tried with the shebang and BOM of the source text
+ * removed, as some loaders strip them before compilation.
+ *
+ * @param scriptCov Coverage of the wrapped script.
+ * @param sourceText Source text of the script, as stored on the disk.
+ * @param candidates Wrappers to try, in order. Defaults to `vm.compileFunction`, `node-cjs` and `jest`.
+ * @return Wrapper lengths `[prefix, suffix]`, the prefix is negative if characters were removed.
+ */
+export function detectWrapper(
+  scriptCov: Readonly<ScriptCov>,
+  sourceText: string,
+  candidates: ReadonlyArray<WrapperLike | WrapperPreset> = DEFAULT_PRESETS,
+): [number, number] {
+  const rootEnd: number = getRootRange(scriptCov).endOffset;
+  // V8 may right-trim the script range
+  const minLen: number = sourceText.trimRight().length;
+  const maxLen: number = sourceText.length;
+  const strips: number[] = getStrippedPrefixLengths(sourceText);
+  const tried: string[] = [];
+  for (const candidate of candidates) {
+    const [prefixLen, suffixLen] = resolveWrapper(candidate);
+    for (const stripped of strips) {
+      const bodyLen: number = rootEnd - prefixLen - suffixLen;
+      if (minLen - stripped <= bodyLen && bodyLen <= maxLen - stripped) {
+        return [prefixLen - stripped, suffixLen];
+      }
+    }
+    const name: string = typeof candidate === "string" ? candidate : `[${prefixLen}, ${suffixLen}]`;
+    tried.push(`${name} (+${prefixLen + suffixLen})`);
+  }
+  throw new Error(
+    `WrapperMismatch: The V8 root range (${rootEnd}) does not match the source text (${maxLen}) of ${scriptCov.url}`
+    + ` with any wrapper: ${tried.join(", ")}`,
+  );
+}
+
+/**
+ * Returns the script coverage relative to the unwrapped source text.
+ *
+ * The ranges are shifted by the length of the prefix and clamped to the
+ * unwrapped source text. The root range always starts at `0`.
+ */
+export function unwrapScriptCov(
+  scriptCov: ScriptCov,
+  wrapper: WrapperLike | WrapperPreset = WrapperPreset.NodeCjs,
+): ScriptCov {
+  if (scriptCov.functions.length === 0) {
+    return scriptCov;
+  }
+  const rootRange: RangeCov = getRootRange(scriptCov);
+  const [prefixLen, suffixLen] = resolveWrapper(wrapper);
+  const bodyStart: number = prefixLen;
+  const bodyEnd: number = rootRange.endOffset - suffixLen;
+  const bodyLen: number = bodyEnd - bodyStart;
+
+  const functions: FunctionCov[] = [];
+  for (const func of scriptCov.functions) {
+    const ranges: RangeCov[] = [];
+    for (const range of func.ranges) {
+      const startOffset: number = range === rootRange ? 0 : Math.max(range.startOffset - bodyStart, 0);
+      const endOffset: number = Math.min(range.endOffset - bodyStart, bodyLen);
+      if (startOffset < endOffset) {
+        ranges.push({startOffset, endOffset, count: range.count});
+      }
+    }
+    if (ranges.length > 0) {
+      functions.push({...func, ranges});
+    }
+  }
+  return {...scriptCov, functions};
+}
+
+/**
+ * Removes the wrapper from a wrapped source text.
+ *
+ * Wrappers removing characters (negative prefix) are not supported: the
+ * removed characters cannot be restored.
+ */
+export function unwrapSourceText(
+  sourceText: string,
+  wrapper: WrapperLike | WrapperPreset = WrapperPreset.NodeCjs,
+): string {
+  const [prefixLen, suffixLen] = resolveWrapper(wrapper);
+  if (prefixLen < 0) {
+    throw new Error(`UnsupportedWrapper: Unable to restore the ${-prefixLen} characters removed from the source text`);
+  }
+  return sourceText.substring(prefixLen, sourceText.length - suffixLen);
+}
+
+/**
+ * Returns the lengths of the prefix and suffix of the wrapper.
+ */
+function resolveWrapper(wrapper: WrapperLike | WrapperPreset): [number, number] {
+  const [prefix, suffix] = typeof wrapper === "string" ? getPresetWrapper(wrapper) : wrapper;
+  const prefixLen: number = typeof prefix === "number" ? prefix : prefix.length;
+  const suffixLen: number = typeof suffix === "number" ? suffix : suffix.length;
+  return [prefixLen, suffixLen];
+}
+
+/**
+ * Returns the possible numbers of characters removed from the start of the
+ * source text before compilation: none, the BOM, the shebang, or both.
+ */
+function getStrippedPrefixLengths(sourceText: string): number[] {
+  const lengths: number[] = [0];
+  const bomLen: number = sourceText.startsWith("\uFEFF") ? 1 : 0;
+  if (bomLen > 0) {
+    lengths.push(bomLen);
+  }
+  const shebang: RegExpExecArray | null = SHEBANG.exec(sourceText.substring(bomLen));
+  if (shebang !== null) {
+    lengths.push(bomLen + shebang[0].length);
+  }
+  return lengths;
+}
+
+function getRootRange(scriptCov: Readonly<ScriptCov>): RangeCov {
+  if (scriptCov.functions.length === 0 || scriptCov.functions[0].ranges.length === 0) {
+    throw new Error("InvalidScriptCov: expected `functions[0].ranges.length > 0`");
+  }
+  return scriptCov.functions[0].ranges[0];
+}
@@ -0,0 +1,52 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { istanbulizeTagged, SourceType, TaggedFileCoverage } from "../lib";
+
+const SOURCE_TEXT: string = "function f(x) {\n  return x ? 1 : 2;\n}\nf(true);\n";
+
+function getScriptCov(fCount: number): ScriptCov {
+  return {
+    scriptId: "1",
+    url: "file:///main.js",
+    functions: [
+      {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 47, count: 1}]},
+      {
+        functionName: "f",
+        isBlockCoverage: true,
+        ranges: [{startOffset: 0, endOffset: 37, count: fCount}, {startOffset: 33, endOffset: 34, count: 0}],
+      },
+    ],
+  };
+}
+
+describe("istanbulizeTagged", () => {
+  it("records the tests that executed each item", () => {
+    const actual: TaggedFileCoverage = istanbulizeTagged({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCovs: [
+        {testId: "calls f", scriptCov: getScriptCov(1)},
+        {testId: "loads the module", scriptCov: getScriptCov(0)},
+      ],
+      lines: true,
+    });
+    chai.assert.deepEqual({...actual.coverage.s}, {s0: 1, s1: 2});
+    chai.assert.deepEqual({...actual.tests.s}, {s0: ["calls f"], s1: ["calls f", "loads the module"]});
+    chai.assert.deepEqual({...actual.tests.f}, {f0: ["calls f"]});
+    chai.assert.deepEqual({...actual.tests.b}, {b0: [["calls f"], []]});
+    chai.assert.deepEqual({...actual.tests.l}, {1: ["calls f"], 2: [], 3: ["calls f"], 4: ["calls f", "loads the module"]});
+  });
+
+  it("can be serialized to JSON", () => {
+    const actual: TaggedFileCoverage = istanbulizeTagged({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCovs: [{testId: "calls f", scriptCov: getScriptCov(1)}],
+    });
+    chai.assert.deepEqual(JSON.parse(JSON.stringify(actual.tests)), {
+      s: {s0: ["calls f"], s1: ["calls f"]},
+      f: {f0: ["calls f"]},
+      b: {b0: [["calls f"], []]},
+    });
+  });
+});
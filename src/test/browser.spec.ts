@@ -0,0 +1,120 @@
+import chai from "chai";
+import { Protocol } from "devtools-protocol";
+import { BrowserScript, istanbulizeBrowserCov } from "../lib";
+import { getAnonymousPath } from "../lib/in-memory";
+import { getSourceTextHash } from "../lib/istanbulize";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+// <html>
+// <script>
+// void 0;
+// </script>
+// <script>function f() {}
+// </script>
+// </html>
+const SCRIPTS: BrowserScript[] = [
+  {scriptId: "1", url: "http://localhost/index.html", source: "\nvoid 0;\n", startLine: 1, startColumn: 8},
+  {scriptId: "2", url: "http://localhost/index.html", source: "function f() {}\n", startLine: 4, startColumn: 8},
+  {scriptId: "3", url: "http://localhost/lib.js", source: "void 1;\n"},
+  {scriptId: "4", url: "", source: "void 2;"},
+];
+
+const SCRIPT_COVS: Protocol.Profiler.ScriptCoverage[] = [
+  {
+    scriptId: "1",
+    url: "http://localhost/index.html",
+    functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 9, count: 1}]}],
+  },
+  {
+    scriptId: "2",
+    url: "http://localhost/index.html",
+    functions: [
+      {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 16, count: 1}]},
+      {functionName: "f", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 15, count: 0}]},
+    ],
+  },
+  {
+    scriptId: "3",
+    url: "http://localhost/lib.js",
+    functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 8, count: 2}]}],
+  },
+  {
+    scriptId: "4",
+    url: "",
+    functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 7, count: 1}]}],
+  },
+];
+
+const ANONYMOUS_PATH: string = getAnonymousPath(getSourceTextHash("void 2;"));
+
+describe("istanbulizeBrowserCov", () => {
+  it("shifts the inline scripts to their position in the document", () => {
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeBrowserCov(SCRIPT_COVS, SCRIPTS);
+    chai.assert.hasAllKeys(actual, ["http://localhost/index.html", "http://localhost/lib.js", ANONYMOUS_PATH]);
+    const doc: IstanbulFileCoverageData = actual["http://localhost/index.html"];
+    chai.assert.deepEqual({...doc.statementMap}, {s0: {start: {line: 3, column: 0}, end: {line: 3, column: 7}}});
+    chai.assert.deepEqual({...doc.s}, {s0: 1});
+    chai.assert.deepEqual(doc.fnMap.f0.loc, {start: {line: 5, column: 8}, end: {line: 5, column: 23}});
+    chai.assert.deepEqual({...doc.f}, {f0: 0});
+    chai.assert.isUndefined(doc.hash);
+    chai.assert.deepEqual({...actual["http://localhost/lib.js"].s}, {s0: 2});
+  });
+
+  it("maps the URLs to local paths", () => {
+    const skipped: string[] = [];
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeBrowserCov(SCRIPT_COVS, SCRIPTS, {
+      mapUrl: (url: string) => url.endsWith(".js") ? url.replace("http://localhost/", "/app/") : undefined,
+      onSkip: (url: string) => skipped.push(url),
+    });
+    chai.assert.hasAllKeys(actual, ["/app/lib.js", ANONYMOUS_PATH]);
+    chai.assert.strictEqual(actual["/app/lib.js"].path, "/app/lib.js");
+    chai.assert.deepEqual(skipped, ["http://localhost/index.html", "http://localhost/index.html"]);
+  });
+
+  it("reports the scripts without a URL at the synthetic path of their source text", () => {
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeBrowserCov(
+      [SCRIPT_COVS[3], {...SCRIPT_COVS[3], scriptId: "5"}],
+      [SCRIPTS[3], {...SCRIPTS[3], scriptId: "5"}],
+    );
+    chai.assert.strictEqual(ANONYMOUS_PATH, `anonymous/${getSourceTextHash("void 2;")}.js`);
+    chai.assert.hasAllKeys(actual, [ANONYMOUS_PATH]);
+    chai.assert.strictEqual(actual[ANONYMOUS_PATH].path, ANONYMOUS_PATH);
+    chai.assert.deepEqual({...actual[ANONYMOUS_PATH].s}, {s0: 2});
+  });
+
+  it("reports the scripts without a source to `onError`", () => {
+    const errors: Array<[string, Error]> = [];
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeBrowserCov(SCRIPT_COVS, SCRIPTS.slice(1), {
+      onError: (url: string, error: Error) => errors.push([url, error]),
+    });
+    chai.assert.hasAllKeys(actual, ["http://localhost/index.html", "http://localhost/lib.js", ANONYMOUS_PATH]);
+    chai.assert.lengthOf(errors, 1);
+    chai.assert.strictEqual(errors[0][0], "http://localhost/index.html");
+    chai.assert.strictEqual(errors[0][1].message, "MissingSource: No source for the script 1");
+  });
+
+  it("throws the missing sources without `onError`", () => {
+    chai.assert.throws(() => istanbulizeBrowserCov(SCRIPT_COVS, SCRIPTS.slice(1)), /^MissingSource: /);
+  });
+
+  it("merges the coverage of scripts loaded several times", () => {
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeBrowserCov(
+      [SCRIPT_COVS[2], {...SCRIPT_COVS[2], scriptId: "5"}],
+      [SCRIPTS[2], {...SCRIPTS[2], scriptId: "5"}],
+    );
+    chai.assert.deepEqual({...actual["http://localhost/lib.js"].s}, {s0: 4});
+  });
+
+  it("reports the scripts loaded at the position of a different source to `onError`", () => {
+    const errors: Array<[string, Error]> = [];
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeBrowserCov(
+      [SCRIPT_COVS[2], {...SCRIPT_COVS[2], scriptId: "5"}],
+      [SCRIPTS[2], {...SCRIPTS[2], scriptId: "5", source: "void 3;\n"}],
+      {onError: (url: string, error: Error) => errors.push([url, error])},
+    );
+    chai.assert.deepEqual({...actual["http://localhost/lib.js"].s}, {s0: 2});
+    chai.assert.lengthOf(errors, 1);
+    chai.assert.strictEqual(errors[0][0], "http://localhost/lib.js");
+    chai.assert.match(errors[0][1].message, /^MismatchedSources: /);
+  });
+});
@@ -0,0 +1,54 @@
+import { parse } from "@babel/parser";
+import { Class, ClassMethod, File, ReturnStatement } from "@babel/types";
+import { FunctionCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { ClassInitializer, matchClassInitializers } from "../lib/class-initializers";
+
+const SOURCE_TEXT: string = "class A { a = 1; m() { return class B { b = 2; }; } }\nclass C { c = 3; }\n";
+
+function getInitializers(): Map<Class, ClassInitializer[]> {
+  const ast: File = parse(SOURCE_TEXT);
+  const [a, c] = ast.program.body as Class[];
+  const method: ClassMethod = a.body.body[1] as ClassMethod;
+  const b: Class = (method.body.body[0] as ReturnStatement).argument as Class;
+  const result: Map<Class, ClassInitializer[]> = new Map();
+  for (const classNode of [c, b, a]) {
+    result.set(classNode, [new ClassInitializer(classNode, false)]);
+  }
+  return result;
+}
+
+function getInitializerCov(startOffset: number, endOffset: number): FunctionCov {
+  return {
+    functionName: "<instance_members_initializer>",
+    isBlockCoverage: true,
+    ranges: [{startOffset, endOffset, count: 1}],
+  };
+}
+
+/**
+ * Returns the matches with the name of the class of the initializers.
+ */
+function getClassNames(matched: Map<ClassInitializer, FunctionCov>): Array<[string, FunctionCov]> {
+  return [...matched].map(([initializer, funcCov]): [string, FunctionCov] => [initializer.classNode.id!.name, funcCov]);
+}
+
+describe("matchClassInitializers", () => {
+  it("matches the initializers to the innermost class containing them", () => {
+    const initializers: Map<Class, ClassInitializer[]> = getInitializers();
+    const aCov: FunctionCov = getInitializerCov(10, 16);
+    const bCov: FunctionCov = getInitializerCov(40, 46);
+    const cCov: FunctionCov = getInitializerCov(64, 70);
+    const actual: Map<ClassInitializer, FunctionCov> = matchClassInitializers(initializers, [cCov, bCov, aCov]);
+    chai.assert.sameDeepMembers(getClassNames(actual), [["A", aCov], ["B", bCov], ["C", cCov]]);
+  });
+
+  it("matches the extra initializers to the enclosing class", () => {
+    const initializers: Map<Class, ClassInitializer[]> = getInitializers();
+    // Both ranges are inside `B`, the second one goes to `A`
+    const first: FunctionCov = getInitializerCov(40, 46);
+    const second: FunctionCov = getInitializerCov(40, 46);
+    const actual: Map<ClassInitializer, FunctionCov> = matchClassInitializers(initializers, [first, second]);
+    chai.assert.sameDeepMembers(getClassNames(actual), [["B", first], ["A", second]]);
+  });
+});
@@ -0,0 +1,159 @@
+import { ProcessCov } from "@c88/v8-coverage";
+import chai from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import url from "url";
+import { CliAction, execCli, OutputFormat, parseArgs } from "../lib/cli";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+describe("parseArgs", () => {
+  it("uses the default options", () => {
+    const actual: CliAction = parseArgs(["coverage"]);
+    const expected: CliAction = {
+      action: "run",
+      config: {
+        input: "coverage",
+        format: "nyc",
+        output: undefined,
+        include: ["**"],
+        exclude: ["**/node_modules/**"],
+        lines: false,
+        cwd: undefined,
+      },
+    };
+    chai.assert.deepEqual(actual, expected);
+  });
+
+  it("parses the options", () => {
+    const actual: CliAction = parseArgs([
+      "coverage.json",
+      "--format", "json",
+      "-o", "out.json",
+      "-i", "src/**", "lib/**",
+      "-x", "**/*.spec.js",
+      "--lines",
+      "--cwd", "packages/foo",
+    ]);
+    const expected: CliAction = {
+      action: "run",
+      config: {
+        input: "coverage.json",
+        format: "json",
+        output: "out.json",
+        include: ["src/**", "lib/**"],
+        exclude: ["**/*.spec.js"],
+        lines: true,
+        cwd: "packages/foo",
+      },
+    };
+    chai.assert.deepEqual(actual, expected);
+  });
+
+  it("accepts the report formats", () => {
+    const formats: OutputFormat[] = ["lcov", "cobertura", "text-summary"];
+    for (const format of formats) {
+      const actual: CliAction = parseArgs(["coverage", "--format", format]);
+      chai.assert.strictEqual(actual.action === "run" ? actual.config.format : undefined, format);
+    }
+  });
+
+  it("returns an error message if the input is missing", () => {
+    const actual: CliAction = parseArgs([]);
+    chai.assert.strictEqual(actual.action, "message");
+    chai.assert.instanceOf(actual.action === "message" ? actual.error : undefined, Error);
+  });
+});
+
+describe("execCli", () => {
+  const SOURCE_TEXT: string = "export const a = 1;\n";
+  let dir: string;
+
+  /**
+   * Process writing its standard output and error to strings.
+   */
+  function getFakeProcess(): {proc: NodeJS.Process; stdout: string[]; stderr: string[]} {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const proc: any = {
+      stdout: {write: (chunk: Buffer | string): boolean => stdout.push(chunk.toString()) > 0},
+      stderr: {write: (chunk: Buffer | string): boolean => stderr.push(chunk.toString()) > 0},
+    };
+    return {proc, stdout, stderr};
+  }
+
+  function writeProcessCov(endOffset: number): void {
+    const processCov: ProcessCov = {
+      result: [
+        {
+          scriptId: "1",
+          url: url.pathToFileURL(path.join(dir, "main.mjs")).href,
+          functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset, count: 1}]}],
+        },
+      ],
+    };
+    fs.writeFileSync(path.join(dir, "coverage", "coverage-1.json"), JSON.stringify(processCov));
+  }
+
+  function removeDir(dirPath: string): void {
+    for (const name of fs.readdirSync(dirPath)) {
+      const child: string = path.join(dirPath, name);
+      if (fs.statSync(child).isDirectory()) {
+        removeDir(child);
+      } else {
+        fs.unlinkSync(child);
+      }
+    }
+    fs.rmdirSync(dirPath);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "istanbulize-"));
+    fs.mkdirSync(path.join(dir, "coverage"));
+    fs.writeFileSync(path.join(dir, "main.mjs"), SOURCE_TEXT);
+  });
+
+  afterEach(() => {
+    removeDir(dir);
+  });
+
+  it("writes the report of a coverage directory", async () => {
+    writeProcessCov(SOURCE_TEXT.length);
+    const {proc, stderr} = getFakeProcess();
+    const returnCode: number = await execCli(["coverage", "--format", "json", "-o", "out/cov.json"], dir, proc);
+    chai.assert.strictEqual(returnCode, 0);
+    chai.assert.deepEqual(stderr, []);
+    const report: Record<string, IstanbulFileCoverageData> = JSON.parse(
+      fs.readFileSync(path.join(dir, "out", "cov.json"), "UTF-8"),
+    );
+    chai.assert.deepEqual(Object.keys(report), ["main.mjs"]);
+    chai.assert.strictEqual(report["main.mjs"].path, "main.mjs");
+    chai.assert.deepEqual(report["main.mjs"].s, {s0: 1, s1: 1});
+  });
+
+  it("prints the text summary to the standard output", async () => {
+    writeProcessCov(SOURCE_TEXT.length);
+    const {proc, stdout} = getFakeProcess();
+    const returnCode: number = await execCli(["coverage", "--format", "text-summary"], dir, proc);
+    chai.assert.strictEqual(returnCode, 0);
+    chai.assert.include(stdout.join(""), "Statements   : 100% ( 2/2 )");
+  });
+
+  it("reports the files that failed to convert", async () => {
+    // The source text changed after the coverage was collected
+    writeProcessCov(SOURCE_TEXT.length + 10);
+    const {proc, stderr} = getFakeProcess();
+    const returnCode: number = await execCli(["coverage", "--format", "json"], dir, proc);
+    chai.assert.strictEqual(returnCode, 1);
+    chai.assert.match(stderr.join(""), /^Failed to convert .*main\.mjs: WrapperMismatch: /);
+    // The report of the files converted successfully is still written
+    chai.assert.isTrue(fs.existsSync(path.join(dir, "coverage", "coverage-final.json")));
+  });
+
+  it("fails if the input does not exist", async () => {
+    const {proc, stderr} = getFakeProcess();
+    const returnCode: number = await execCli(["missing"], dir, proc);
+    chai.assert.strictEqual(returnCode, 1);
+    chai.assert.include(stderr.join(""), "ENOENT");
+  });
+});
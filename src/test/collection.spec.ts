@@ -0,0 +1,88 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { IstambulizeCollection, IstambulizeScript, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const URL: string = "file:///main.js";
+const SOURCE_TEXT: string = "function f() {}\nf();\n";
+
+/**
+ * Coverage of `SOURCE_TEXT` compiled with `vm.compileFunction`.
+ */
+const SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: URL,
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 21, count: 1}]},
+    {functionName: "f", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 15, count: 1}]},
+  ],
+};
+
+/**
+ * Coverage of `SOURCE_TEXT` wrapped by `Module.wrapper` (62 + 4 characters).
+ */
+const WRAPPED_SCRIPT_COV: ScriptCov = {
+  scriptId: "2",
+  url: URL,
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 87, count: 1}]},
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 1, endOffset: 86, count: 1}]},
+    {functionName: "f", isBlockCoverage: true, ranges: [{startOffset: 62, endOffset: 77, count: 2}]},
+  ],
+};
+
+describe("IstambulizeCollection", () => {
+  it("merges the coverage of the same source text with different wrappers", () => {
+    const collection: IstambulizeCollection = new IstambulizeCollection({sourceType: SourceType.Script});
+    chai.assert.isTrue(collection.add(SCRIPT_COV, SOURCE_TEXT));
+    chai.assert.isTrue(collection.add(WRAPPED_SCRIPT_COV, SOURCE_TEXT));
+    const actual: IstanbulFileCoverageData[] = collection.toIstanbul();
+    chai.assert.lengthOf(actual, 1);
+    chai.assert.strictEqual(actual[0].path, URL);
+    chai.assert.deepEqual({...actual[0].f}, {f0: 3});
+    chai.assert.deepEqual({...actual[0].s}, {s0: 2});
+  });
+
+  it("keeps a script for each source text of a URL", () => {
+    const collection: IstambulizeCollection = new IstambulizeCollection({sourceType: SourceType.Script});
+    collection.add(SCRIPT_COV, SOURCE_TEXT);
+    collection.add(
+      {
+        scriptId: "3",
+        url: URL,
+        functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 8, count: 1}]}],
+      },
+      "void 0;\n",
+    );
+    const actual: IstanbulFileCoverageData[] = collection.toIstanbul();
+    chai.assert.lengthOf(actual, 2);
+    chai.assert.deepEqual(actual.map(({path}) => path), [URL, URL]);
+    chai.assert.notStrictEqual(actual[0].hash, actual[1].hash);
+  });
+
+  it("rejects the coverage not matching the source text", () => {
+    const errors: string[] = [];
+    const collection: IstambulizeCollection = new IstambulizeCollection({
+      sourceType: SourceType.Script,
+      onError: (_: string, err: Error) => errors.push(err.message),
+    });
+    chai.assert.isFalse(collection.add(SCRIPT_COV, "void 0;\n"));
+    chai.assert.lengthOf(errors, 1);
+    chai.assert.match(errors[0], /^WrapperMismatch:/);
+    chai.assert.lengthOf(collection.toIstanbul(), 0);
+  });
+
+  it("throws without `onError`", () => {
+    const collection: IstambulizeCollection = new IstambulizeCollection({sourceType: SourceType.Script});
+    chai.assert.throws(() => collection.add(SCRIPT_COV, "void 0;\n"), /^WrapperMismatch:/);
+  });
+});
+
+describe("IstambulizeScript", () => {
+  it("keeps the URL of the first script coverage as its path", () => {
+    const script: IstambulizeScript = new IstambulizeScript({sourceText: SOURCE_TEXT, sourceType: SourceType.Script});
+    script.add(SCRIPT_COV);
+    script.add({...SCRIPT_COV, url: "file:///other.js"});
+    chai.assert.strictEqual(script.toIstanbul().path, URL);
+  });
+});
@@ -0,0 +1,194 @@
+import chai from "chai";
+import { CoverageDiff, CoverageItemType, diffCoverage, toDiffMarkdown } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+import { FileDiff, mapDiffLine, parseUnifiedDiff } from "../lib/unified-diff";
+
+// function f(a) {
+//   return a ? 1 : 2;
+// }
+// f(true);
+const BASE_FILE_COV: IstanbulFileCoverageData = {
+  path: "src/main.js",
+  statementMap: {
+    s0: {start: {line: 2, column: 2}, end: {line: 2, column: 19}},
+    s1: {start: {line: 4, column: 0}, end: {line: 4, column: 8}},
+  },
+  s: {s0: 1, s1: 1},
+  fnMap: {
+    f0: {
+      name: "f",
+      decl: {start: {line: 1, column: 9}, end: {line: 1, column: 10}},
+      loc: {start: {line: 1, column: 0}, end: {line: 3, column: 1}},
+      line: 1,
+    },
+  },
+  f: {f0: 1},
+  branchMap: {
+    b0: {
+      type: "cond-expr",
+      line: 2,
+      loc: {start: {line: 2, column: 9}, end: {line: 2, column: 18}},
+      locations: [
+        {start: {line: 2, column: 13}, end: {line: 2, column: 14}},
+        {start: {line: 2, column: 17}, end: {line: 2, column: 18}},
+      ],
+    },
+  },
+  b: {b0: [1, 0]},
+};
+
+// // Header
+// function f(a) {
+//   return a ? 1 : 2;
+// }
+// function g() {
+//   return 0;
+// }
+// f(true);
+const HEAD_FILE_COV: IstanbulFileCoverageData = {
+  path: "src/main.js",
+  statementMap: {
+    s0: {start: {line: 3, column: 2}, end: {line: 3, column: 19}},
+    s1: {start: {line: 6, column: 2}, end: {line: 6, column: 11}},
+    s2: {start: {line: 8, column: 0}, end: {line: 8, column: 8}},
+  },
+  s: {s0: 1, s1: 0, s2: 1},
+  fnMap: {
+    f0: {
+      name: "f",
+      decl: {start: {line: 2, column: 9}, end: {line: 2, column: 10}},
+      loc: {start: {line: 2, column: 0}, end: {line: 4, column: 1}},
+      line: 2,
+    },
+    f1: {
+      name: "g",
+      decl: {start: {line: 5, column: 9}, end: {line: 5, column: 10}},
+      loc: {start: {line: 5, column: 0}, end: {line: 7, column: 1}},
+      line: 5,
+    },
+  },
+  f: {f0: 1, f1: 0},
+  branchMap: {
+    b0: {
+      type: "cond-expr",
+      line: 3,
+      loc: {start: {line: 3, column: 9}, end: {line: 3, column: 18}},
+      locations: [
+        {start: {line: 3, column: 13}, end: {line: 3, column: 14}},
+        {start: {line: 3, column: 17}, end: {line: 3, column: 18}},
+      ],
+    },
+  },
+  b: {b0: [1, 0]},
+};
+
+const DIFF: string = [
+  "diff --git a/src/main.js b/src/main.js",
+  "index 1111111..2222222 100644",
+  "--- a/src/main.js",
+  "+++ b/src/main.js",
+  "@@ -1,4 +1,8 @@",
+  "+// Header",
+  " function f(a) {",
+  "   return a ? 1 : 2;",
+  " }",
+  "+function g() {",
+  "+  return 0;",
+  "+}",
+  " f(true);",
+  "",
+].join("\n");
+
+describe("diffCoverage", () => {
+  it("reports the newly uncovered items and the patch coverage", () => {
+    const actual: CoverageDiff = diffCoverage(
+      {"src/main.js": BASE_FILE_COV},
+      {"src/main.js": HEAD_FILE_COV},
+      {diff: DIFF},
+    );
+    chai.assert.deepEqual(actual.newlyUncovered, [
+      {
+        path: "src/main.js",
+        type: CoverageItemType.Function,
+        key: "f1",
+        loc: HEAD_FILE_COV.fnMap.f1.loc,
+        name: "g",
+      },
+      {path: "src/main.js", type: CoverageItemType.Statement, key: "s1", loc: HEAD_FILE_COV.statementMap.s1},
+    ]);
+    chai.assert.deepEqual(actual.delta, {statements: -33.34, functions: -50, branches: 0, lines: -33.34});
+    chai.assert.deepEqual(actual.patch, {total: 1, covered: 0, pct: 0});
+    chai.assert.lengthOf(actual.files, 1);
+    chai.assert.deepEqual(actual.files[0].patch, {total: 1, covered: 0, pct: 0});
+  });
+
+  it("considers the moved items as new without a diff", () => {
+    const actual: CoverageDiff = diffCoverage({"src/main.js": BASE_FILE_COV}, {"src/main.js": HEAD_FILE_COV});
+    chai.assert.deepEqual(
+      actual.newlyUncovered.map(({type, key}) => `${type}:${key}`),
+      ["branch:b0", "function:f1", "statement:s1"],
+    );
+    chai.assert.isUndefined(actual.patch);
+  });
+
+  it("reports the added and deleted files", () => {
+    const actual: CoverageDiff = diffCoverage({"src/old.js": BASE_FILE_COV}, {"src/main.js": BASE_FILE_COV});
+    chai.assert.deepEqual(actual.files.map(({path, base, head}) => [path, base !== undefined, head !== undefined]), [
+      ["src/main.js", false, true],
+      ["src/old.js", true, false],
+    ]);
+  });
+});
+
+describe("toDiffMarkdown", () => {
+  it("formats the summary, files and newly uncovered items", () => {
+    const diff: CoverageDiff = diffCoverage({"src/main.js": BASE_FILE_COV}, {"src/main.js": HEAD_FILE_COV}, {diff: DIFF});
+    const expected: string = [
+      "## Coverage diff",
+      "",
+      "| Metric | Base | Head | Delta |",
+      "| --- | ---: | ---: | ---: |",
+      "| Statements | 100% | 66.66% | -33.34 |",
+      "| Branches | 50% | 50% | ±0 |",
+      "| Functions | 100% | 50% | -50 |",
+      "| Lines | 100% | 66.66% | -33.34 |",
+      "",
+      "**Patch coverage:** 0% (0/1) of the added lines",
+      "",
+      "### Files",
+      "",
+      "| File | Statements | Branches | Functions | Lines | Patch |",
+      "| --- | ---: | ---: | ---: | ---: | ---: |",
+      "| `src/main.js` | 66.66% (-33.34) | 50% (±0) | 50% (-50) | 66.66% (-33.34) | 0% (0/1) |",
+      "",
+      "### Newly uncovered",
+      "",
+      "- `src/main.js:5:1` function `g`",
+      "- `src/main.js:6:3` statement",
+      "",
+    ].join("\n");
+    chai.assert.strictEqual(toDiffMarkdown(diff), expected);
+  });
+});
+
+describe("parseUnifiedDiff", () => {
+  it("maps the old lines to the new lines", () => {
+    const files: FileDiff[] = parseUnifiedDiff([
+      "--- a/main.js",
+      "+++ b/lib/main.js",
+      "@@ -2,2 +2,1 @@",
+      " a",
+      "-b",
+      "@@ -5,0 +5,2 @@",
+      "+c",
+      "+d",
+      "",
+    ].join("\n"));
+    chai.assert.lengthOf(files, 1);
+    chai.assert.strictEqual(files[0].oldPath, "main.js");
+    chai.assert.strictEqual(files[0].newPath, "lib/main.js");
+    chai.assert.deepEqual([...files[0].addedLines], [5, 6]);
+    const mapped: Array<number | undefined> = [1, 2, 3, 4, 5, 6].map((line: number) => mapDiffLine(files[0], line));
+    chai.assert.deepEqual(mapped, [1, 2, undefined, 3, 4, 7]);
+  });
+});
@@ -0,0 +1,101 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { Diagnostic, DiagnosticType, IstambulizeScript, SourceType } from "../lib";
+
+const SOURCE_TEXT: string = "function used() {\n  return 1;\n}\nfunction unused() {\n  return 2;\n}\nused();\n";
+
+/**
+ * Coverage with a stale function range (`used` was moved by one char).
+ */
+const SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: "file:///main.js",
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 74, count: 1}]},
+    {functionName: "used", isBlockCoverage: true, ranges: [{startOffset: 1, endOffset: 32, count: 1}]},
+  ],
+};
+
+describe("IstambulizeScript diagnostics", () => {
+  it("reports unmatched functions and uncovered statements", () => {
+    const script: IstambulizeScript = new IstambulizeScript({sourceText: SOURCE_TEXT, sourceType: SourceType.Script});
+    script.add(SCRIPT_COV);
+    const actual: ReadonlyArray<Diagnostic> = script.getDiagnostics();
+    chai.assert.deepEqual(actual.map(({type}) => type), [
+      DiagnosticType.UnmatchedFunctionCov,
+      DiagnosticType.UnmatchedFunctionNode,
+      DiagnosticType.UnmatchedFunctionNode,
+      DiagnosticType.UncoveredStatement,
+      DiagnosticType.UncoveredStatement,
+    ]);
+    chai.assert.deepInclude(actual[0], {functionName: "used", startOffset: 1, endOffset: 32});
+    chai.assert.deepInclude(actual[1], {name: "used", startOffset: 0, endOffset: 31});
+    chai.assert.deepInclude(actual[2], {name: "unused", startOffset: 32, endOffset: 65});
+    chai.assert.deepInclude(actual[3], {startOffset: 20, endOffset: 29});
+  });
+
+  it("reports each unmatched function once, if its enclosing function ran", () => {
+    const sourceText: string = "function outer() {\n  return () => 1;\n}\nfunction other() {}\n";
+    const script: IstambulizeScript = new IstambulizeScript({sourceText, sourceType: SourceType.Script});
+    // `outer` was never called: V8 did not compile the arrow function
+    const scriptCov: ScriptCov = {
+      scriptId: "1",
+      url: "file:///main.js",
+      functions: [
+        {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 59, count: 1}]},
+        {functionName: "outer", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 38, count: 0}]},
+      ],
+    };
+    script.add(scriptCov);
+    script.add(scriptCov);
+    const actual: ReadonlyArray<Diagnostic> = script.getDiagnostics();
+    chai.assert.deepEqual(actual.map(({type}) => type), [DiagnosticType.UnmatchedFunctionNode]);
+    chai.assert.deepInclude(actual[0], {name: "other", startOffset: 39, endOffset: 58});
+  });
+
+  it("throws in strict mode", () => {
+    const script: IstambulizeScript = new IstambulizeScript({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      strict: true,
+    });
+    chai.assert.throws(() => script.add(SCRIPT_COV), /UnmatchedFunctionCov.*used@1:32/);
+  });
+
+  it("matches static methods in strict mode", () => {
+    const sourceText: string = "class A {\n  static foo() {}\n}\nA.foo();\n";
+    const script: IstambulizeScript = new IstambulizeScript({sourceText, sourceType: SourceType.Script, strict: true});
+    // V8 starts the range of a static method after the `static` keyword
+    script.add({
+      scriptId: "1",
+      url: "file:///main.js",
+      functions: [
+        {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 39, count: 1}]},
+        {functionName: "foo", isBlockCoverage: true, ranges: [{startOffset: 19, endOffset: 27, count: 1}]},
+      ],
+    });
+    chai.assert.deepEqual(script.getDiagnostics(), []);
+    chai.assert.deepEqual({...script.toIstanbul().f}, {f0: 1});
+  });
+
+  it("matches the V8 class initializers to their class", () => {
+    const sourceText: string = "class A {\n  x = 1;\n  static y = 2;\n  z = 3;\n}\nnew A();\n";
+    const script: IstambulizeScript = new IstambulizeScript({sourceText, sourceType: SourceType.Script, strict: true});
+    // Node 16 reports ranges from the first to the last field of each kind
+    script.add({
+      scriptId: "1",
+      url: "file:///main.js",
+      functions: [
+        {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 56, count: 1}]},
+        {functionName: "<static_initializer>", isBlockCoverage: true, ranges: [{startOffset: 21, endOffset: 34, count: 1}]},
+        {
+          functionName: "<instance_members_initializer>",
+          isBlockCoverage: true,
+          ranges: [{startOffset: 12, endOffset: 44, count: 2}],
+        },
+      ],
+    });
+    chai.assert.deepEqual(script.getDiagnostics(), []);
+    chai.assert.deepEqual({...script.toIstanbul().s}, {s0: 1, s1: 2, s2: 1, s3: 2, s4: 1});
+  });
+});
@@ -0,0 +1,19 @@
+// c8 ignore next 3
+function unused () {
+  return 'unused'
+}
+
+// c8 ignore next
+const skipped = () => 'skipped'
+
+// c8 ignore start
+function alsoUnused () {
+  return 'also unused'
+}
+// c8 ignore stop
+
+function used () {
+  return 'used'
+}
+
+used()
@@ -0,0 +1,44 @@
+// `tsc --target es2022` output
+class Counter {
+  static instances = 0;
+  static #registry = new Map();
+  count = 0;
+  #step = Counter.defaultStep > 0 ? Counter.defaultStep : 1;
+  label = () => `${this.count}`;
+  static {
+    this.defaultStep = 1;
+  }
+  constructor(name) {
+    this.name = name;
+    Counter.instances++;
+    Counter.#registry.set(name, this);
+  }
+  increment() {
+    this.count += this.#step;
+  }
+  get value() {
+    return this.count;
+  }
+}
+
+class Unused {
+  data = [];
+  static {
+    if (typeof window !== "undefined") {
+      this.browser = true;
+    }
+  }
+}
+
+// `tsc --target es2015` output
+class Legacy {
+  constructor() {
+    this.items = [];
+  }
+}
+Legacy.kind = "legacy";
+
+const counter = new Counter("a");
+counter.increment();
+new Counter("b");
+counter.label();
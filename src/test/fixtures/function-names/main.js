@@ -0,0 +1,42 @@
+const arrow = () => 1;
+let expr = function () {
+  return 2;
+};
+const obj = {
+  method() {
+    return 3;
+  },
+  prop: () => 4,
+  get value() {
+    return 5;
+  },
+  set value(v) {
+  },
+};
+obj.assigned = function () {
+  return 6;
+};
+
+class Foo {
+  constructor() {
+    this.x = 1;
+  }
+
+  bar() {
+    return 7;
+  }
+
+  get baz() {
+    return this.x;
+  }
+
+  static qux() {
+    return 8;
+  }
+}
+
+const foo = new Foo();
+arrow();
+obj.method();
+void foo.baz;
+Foo.qux();
@@ -0,0 +1,35 @@
+/* istanbul ignore next */
+function debug (msg) {
+  console.log(msg)
+}
+
+function abs (x) {
+  /* istanbul ignore else */
+  if (x >= 0) {
+    return x
+  } else {
+    return -x
+  }
+}
+
+function sign (x) {
+  /* istanbul ignore if */
+  if (x === 0) {
+    return 0
+  }
+  return x > 0 ? 1 : /* istanbul ignore next */ -1
+}
+
+/* c8 ignore next 3 */
+function unused () {
+  return 'unused'
+}
+
+/* c8 ignore start */
+function alsoUnused () {
+  return 'also unused'
+}
+/* c8 ignore stop */
+
+abs(1)
+sign(2)
@@ -0,0 +1,15 @@
+function describe (x, prefix = 'value') {
+  switch (x) {
+    case 0:
+      return `${prefix}: zero`
+    case 1:
+    case 2:
+      return `${prefix}: small`
+    default:
+      return `${prefix}: large`
+  }
+}
+
+describe(0)
+describe(1, 'number')
+describe(10)
@@ -0,0 +1,53 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { IstambulizeScript, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const STATIC_SOURCE_TEXT: string = [
+  "class A {",
+  "  static foo() {}",
+  "  static get bar() { return 1; }",
+  "  static /* async */ async baz() {}",
+  "  static [\"qux\"]() {}",
+  "  static *gen() {}",
+  "}",
+  "A.foo();",
+  "A.bar;",
+  "A.baz();",
+  "A.qux();",
+  "",
+].join("\n");
+
+/**
+ * Coverage reported by Node 20: the ranges of static methods start after the
+ * `static` keyword.
+ */
+const STATIC_SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: "file:///main.js",
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 174, count: 1}]},
+    {functionName: "foo", isBlockCoverage: true, ranges: [{startOffset: 19, endOffset: 27, count: 1}]},
+    {functionName: "get bar", isBlockCoverage: true, ranges: [{startOffset: 37, endOffset: 60, count: 1}]},
+    {functionName: "baz", isBlockCoverage: true, ranges: [{startOffset: 82, endOffset: 96, count: 1}]},
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 106, endOffset: 118, count: 1}]},
+    {functionName: "gen", isBlockCoverage: false, ranges: [{startOffset: 128, endOffset: 137, count: 0}]},
+  ],
+};
+
+describe("IstambulizeScript functions", () => {
+  it("matches static methods to their V8 function", () => {
+    const script: IstambulizeScript = new IstambulizeScript({
+      sourceText: STATIC_SOURCE_TEXT,
+      sourceType: SourceType.Script,
+    });
+    script.add(STATIC_SCRIPT_COV);
+    chai.assert.deepEqual(script.getDiagnostics(), []);
+    const actual: IstanbulFileCoverageData = script.toIstanbul();
+    const counts: Record<string, number> = Object.create(null);
+    for (const key of Object.keys(actual.fnMap)) {
+      counts[actual.fnMap[key].name] = actual.f[key];
+    }
+    chai.assert.deepEqual({...counts}, {"A.foo": 1, "get A.bar": 1, "A.baz": 1, "A.qux": 1, "A.gen": 0});
+  });
+});
@@ -0,0 +1,85 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { InMemoryFileCoverage, InMemoryScript, istanbulizeInMemoryCov } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+// const f1 = new Function("a", "return a ? 1 : 2;");
+// const f2 = new Function("a", "return a ? 1 : 2;");
+// f1(true); f2(false); f2(false);
+const FUNCTION_SOURCE: string = "(function anonymous(a\n) {\nreturn a ? 1 : 2;\n})";
+const FUNCTION_HASH: string = "4eac3f9f3a453ffa687487656fdfc13c90528121";
+
+const SCRIPTS: InMemoryScript[] = [
+  {scriptId: "1", source: FUNCTION_SOURCE},
+  {scriptId: "2", source: FUNCTION_SOURCE},
+  {scriptId: "3", source: "void 0;\n"},
+];
+
+const SCRIPT_COVS: ScriptCov[] = [
+  {
+    scriptId: "1",
+    url: "",
+    functions: [
+      {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 46, count: 1}]},
+      {
+        functionName: "",
+        isBlockCoverage: true,
+        ranges: [{startOffset: 1, endOffset: 45, count: 1}, {startOffset: 39, endOffset: 42, count: 0}],
+      },
+    ],
+  },
+  {
+    scriptId: "2",
+    url: "",
+    functions: [
+      {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 46, count: 1}]},
+      {
+        functionName: "",
+        isBlockCoverage: true,
+        ranges: [{startOffset: 1, endOffset: 45, count: 2}, {startOffset: 35, endOffset: 38, count: 0}],
+      },
+    ],
+  },
+  {
+    scriptId: "3",
+    url: "evalmachine.<anonymous>",
+    functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 8, count: 1}]}],
+  },
+  {
+    scriptId: "4",
+    url: "",
+    functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 8, count: 1}]}],
+  },
+];
+
+describe("istanbulizeInMemoryCov", () => {
+  it("merges the scripts with the same source text", () => {
+    const actual: Record<string, InMemoryFileCoverage> = istanbulizeInMemoryCov(SCRIPT_COVS, SCRIPTS);
+    chai.assert.lengthOf(Object.keys(actual), 2);
+    const {sourceText, fileCov} = actual[`anonymous/${FUNCTION_HASH}.js`];
+    chai.assert.strictEqual(sourceText, FUNCTION_SOURCE);
+    chai.assert.strictEqual(fileCov.path, `anonymous/${FUNCTION_HASH}.js`);
+    chai.assert.strictEqual(fileCov.hash, FUNCTION_HASH);
+    chai.assert.deepEqual({...fileCov.f}, {f0: 3});
+    chai.assert.deepEqual({...fileCov.b}, {b0: [1, 2]});
+  });
+
+  it("uses the synthetic paths of `getPath`", () => {
+    const actual: Record<string, InMemoryFileCoverage> = istanbulizeInMemoryCov(SCRIPT_COVS, SCRIPTS, {
+      getPath: (hash: string) => `/templates/${hash.substr(0, 8)}.js`,
+    });
+    chai.assert.hasAllKeys(actual, [`/templates/${FUNCTION_HASH.substr(0, 8)}.js`, "/templates/0675dd78.js"]);
+  });
+
+  it("reports the scripts that do not match their source", () => {
+    const errors: string[] = [];
+    const actual: Record<string, InMemoryFileCoverage> = istanbulizeInMemoryCov(
+      [SCRIPT_COVS[0], {...SCRIPT_COVS[2], scriptId: "2"}],
+      SCRIPTS,
+      {onError: (scriptId: string) => errors.push(scriptId)},
+    );
+    chai.assert.deepEqual(errors, ["2"]);
+    const fileCov: IstanbulFileCoverageData = actual[`anonymous/${FUNCTION_HASH}.js`].fileCov;
+    chai.assert.deepEqual({...fileCov.b}, {b0: [1, 0]});
+  });
+});
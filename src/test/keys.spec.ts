@@ -0,0 +1,58 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { istanbulize, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const SOURCE_TEXT: string = "function f(x) {\n  return x ? 1 : 2;\n}\nf(true);\n";
+
+const SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: "file:///main.js",
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 47, count: 1}]},
+    {
+      functionName: "f",
+      isBlockCoverage: true,
+      ranges: [{startOffset: 0, endOffset: 37, count: 1}, {startOffset: 27, endOffset: 30, count: 0}],
+    },
+  ],
+};
+
+describe("Keys", () => {
+  it("uses index keys by default", () => {
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+    });
+    chai.assert.deepEqual(Object.keys(actual.s), ["s0", "s1"]);
+    chai.assert.deepEqual(Object.keys(actual.f), ["f0"]);
+    chai.assert.deepEqual(Object.keys(actual.b), ["b0"]);
+    chai.assert.notProperty(actual, "hash");
+  });
+
+  it("derives stable keys from the node type and location", () => {
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+      stableKeys: true,
+    });
+    chai.assert.deepEqual(actual.s, {
+      "s:ReturnStatement@2:2-2:19": 1,
+      "s:ExpressionStatement@4:0-4:8": 1,
+    });
+    chai.assert.deepEqual(actual.f, {"f:FunctionDeclaration@1:0-3:1": 1});
+    chai.assert.deepEqual(actual.b, {"b:ConditionalExpression@2:9-2:18": [0, 1]});
+  });
+
+  it("adds the hash of the source text", () => {
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+      hash: true,
+    });
+    chai.assert.strictEqual(actual.hash, "a0b0f1f92173ada3587596759bdf63ff93091725");
+  });
+});
@@ -0,0 +1,77 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { getLineCoverage, istanbulize, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const SOURCE_TEXT: string = "function f(x) {\n  return x ? 1 : 2;\n}\n\nf(true);\n";
+
+const SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: "file:///main.js",
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 48, count: 1}]},
+    {
+      functionName: "f",
+      isBlockCoverage: true,
+      ranges: [{startOffset: 0, endOffset: 37, count: 1}, {startOffset: 33, endOffset: 34, count: 0}],
+    },
+  ],
+};
+
+describe("getLineCoverage", () => {
+  it("counts a line with a block that was not executed as not covered", () => {
+    const actual: Record<number, number> = getLineCoverage(SCRIPT_COV, SOURCE_TEXT);
+    chai.assert.deepEqual({...actual}, {1: 1, 2: 0, 3: 1, 5: 1});
+  });
+
+  it("supports CRLF line terminators", () => {
+    const actual: Record<number, number> = getLineCoverage(
+      {
+        scriptId: "1",
+        url: "file:///main.js",
+        functions: [
+          {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 16, count: 1}]},
+          {functionName: "f", isBlockCoverage: true, ranges: [{startOffset: 8, endOffset: 14, count: 0}]},
+        ],
+      },
+      "void 0;\r\nf();\r\n",
+    );
+    chai.assert.deepEqual({...actual}, {1: 1, 2: 0});
+  });
+});
+
+describe("istanbulize", () => {
+  it("adds the line counts with the `lines` option", () => {
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+      lines: true,
+    });
+    chai.assert.deepEqual({...actual.l}, {1: 1, 2: 0, 3: 1, 5: 1});
+  });
+
+  it("omits the lines ignored by c8 hints", () => {
+    const sourceText: string = "/* c8 ignore next */\nvoid 0;\nvoid 1;\n";
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Script,
+      scriptCov: {
+        scriptId: "1",
+        url: "file:///main.js",
+        functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 37, count: 1}]}],
+      },
+      lines: true,
+    });
+    chai.assert.deepEqual({...actual.l}, {3: 1});
+  });
+
+  it("does not add line counts by default", () => {
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+    });
+    chai.assert.isUndefined(actual.l);
+  });
+});
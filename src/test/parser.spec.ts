@@ -0,0 +1,80 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { istanbulize, ParserPreset, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+function getScriptCov(sourceText: string): ScriptCov {
+  return {
+    scriptId: "1",
+    url: "file:///main.js",
+    functions: [
+      {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: sourceText.length, count: 1}]},
+    ],
+  };
+}
+
+describe("Parser", () => {
+  it("supports modern syntax by default", () => {
+    const sourceText: string = [
+      "class Foo {",
+      "  bar = 1;",
+      "  #baz = 2;",
+      "  #qux() { return this.#baz; }",
+      "}",
+      "const a = null ?? undefined?.foo;",
+      "await Promise.resolve(a);",
+    ].join("\n");
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Module,
+      scriptCov: getScriptCov(sourceText),
+    });
+    chai.assert.lengthOf(Object.keys(actual.statementMap), 6);
+    chai.assert.deepEqual(actual.branchMap.b0.type, "binary-expr");
+  });
+
+  it("supports TypeScript with the `typescript` preset", () => {
+    const sourceText: string = "interface Foo {}\ntype Bar = Foo;\nconst a: number = 1;\n";
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Script,
+      scriptCov: getScriptCov(sourceText),
+      parser: {presets: [ParserPreset.TypeScript]},
+    });
+    chai.assert.deepEqual(actual.statementMap, {
+      s0: {start: {line: 3, column: 0}, end: {line: 3, column: 20}},
+    });
+  });
+
+  it("supports JSX with the `jsx` preset", () => {
+    const sourceText: string = "const a = <div>{1}</div>;\n";
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Script,
+      scriptCov: getScriptCov(sourceText),
+      parser: {presets: [ParserPreset.Jsx]},
+    });
+    chai.assert.deepEqual(actual.s, {s0: 1});
+  });
+
+  it("reports the URL of unparseable scripts", () => {
+    const sourceText: string = "const a = <div></div>;\n";
+    chai.assert.throws(
+      () => istanbulize({sourceText, sourceType: SourceType.Script, scriptCov: getScriptCov(sourceText)}),
+      /^SyntaxError: Unable to parse file:\/\/\/main\.js: /,
+    );
+  });
+
+  it("rejects incompatible presets", () => {
+    const sourceText: string = "const a = 1;\n";
+    chai.assert.throws(
+      () => istanbulize({
+        sourceText,
+        sourceType: SourceType.Script,
+        scriptCov: getScriptCov(sourceText),
+        parser: {presets: [ParserPreset.Flow, ParserPreset.TypeScript]},
+      }),
+      /IncompatibleParserPresets/,
+    );
+  });
+});
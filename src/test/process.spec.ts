@@ -0,0 +1,147 @@
+import { ProcessCov } from "@c88/v8-coverage";
+import chai from "chai";
+import Module from "module";
+import { istanbulizeProcessCov } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const SOURCES: Record<string, string> = {
+  "/project/lib.js": "module.exports = 1;\n",
+  "/project/main.mjs": "import lib from \"./lib.js\";\n",
+  "/project/excluded.js": "void 0;\n",
+};
+
+function getProcessCov(): ProcessCov {
+  const prefixLen: number = (Module as any).wrapper[0].length;
+  const suffixLen: number = (Module as any).wrapper[1].length;
+  const libLen: number = SOURCES["/project/lib.js"].length;
+  return {
+    result: [
+      {
+        scriptId: "1",
+        url: "internal/bootstrap/loaders.js",
+        functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 10, count: 1}]}],
+      },
+      {
+        scriptId: "2",
+        url: "",
+        functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 10, count: 1}]}],
+      },
+      {
+        scriptId: "3",
+        url: "file:///project/lib.js",
+        functions: [
+          {
+            functionName: "",
+            isBlockCoverage: true,
+            ranges: [{startOffset: 0, endOffset: prefixLen + libLen + suffixLen, count: 1}],
+          },
+        ],
+      },
+      {
+        scriptId: "4",
+        url: "file:///project/main.mjs",
+        functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 27, count: 1}]}],
+      },
+      {
+        scriptId: "5",
+        url: "file:///project/excluded.js",
+        functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 8, count: 1}]}],
+      },
+    ],
+  };
+}
+
+describe("istanbulizeProcessCov", () => {
+  it("converts the file scripts of a process", async () => {
+    const actual: Record<string, IstanbulFileCoverageData> = await istanbulizeProcessCov(getProcessCov(), {
+      loadSource: async (path: string) => SOURCES[path],
+      filter: (path: string) => !path.endsWith("excluded.js"),
+    });
+    chai.assert.deepEqual(Object.keys(actual), ["/project/lib.js", "/project/main.mjs"]);
+    chai.assert.strictEqual(actual["/project/lib.js"].path, "/project/lib.js");
+    chai.assert.deepEqual(actual["/project/lib.js"].statementMap, {
+      s0: {start: {line: 1, column: 0}, end: {line: 1, column: 19}},
+    });
+    chai.assert.deepEqual(actual["/project/lib.js"].s, {s0: 1});
+    chai.assert.deepEqual(actual["/project/main.mjs"].s, {s0: 1});
+  });
+
+  it("merges the coverage of scripts with the same URL", async () => {
+    const processCov: ProcessCov = getProcessCov();
+    processCov.result.push(processCov.result[3]);
+    const actual: Record<string, IstanbulFileCoverageData> = await istanbulizeProcessCov(processCov, {
+      loadSource: async (path: string) => SOURCES[path],
+    });
+    chai.assert.deepEqual(actual["/project/main.mjs"].s, {s0: 2});
+  });
+
+  it("rejects the coverage of different source texts with the same URL", async () => {
+    const processCov: ProcessCov = getProcessCov();
+    processCov.result.push(processCov.result[2]);
+    let loadCount: number = 0;
+    const loadSource = async (path: string): Promise<string | undefined> => {
+      if (path === "/project/lib.js") {
+        loadCount++;
+        return `module.exports = ${loadCount};\n`;
+      }
+      return SOURCES[path];
+    };
+    let error: Error | undefined;
+    try {
+      await istanbulizeProcessCov(processCov, {loadSource});
+    } catch (err) {
+      error = err;
+    }
+    chai.assert.instanceOf(error, Error);
+    chai.assert.match(error!.message, /^MismatchedSources: /);
+  });
+
+  it("reports the scripts whose source text changed", async () => {
+    const errors: string[] = [];
+    const actual: Record<string, IstanbulFileCoverageData> = await istanbulizeProcessCov(getProcessCov(), {
+      loadSource: async (path: string) => path === "/project/main.mjs" ? `${SOURCES[path]}void 0;\n` : SOURCES[path],
+      onError: (path: string) => errors.push(path),
+    });
+    chai.assert.deepEqual(errors, ["/project/main.mjs"]);
+    chai.assert.deepEqual(Object.keys(actual), ["/project/lib.js", "/project/excluded.js"]);
+  });
+
+  it("throws the wrapper mismatch without `onError`", async () => {
+    const processCov: ProcessCov = getProcessCov();
+    // Root range matching none of the candidate wrappers
+    processCov.result[2] = {
+      ...processCov.result[2],
+      functions: [{functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 1000, count: 1}]}],
+    };
+    let error: Error | undefined;
+    try {
+      await istanbulizeProcessCov(processCov, {loadSource: async (path: string) => SOURCES[path]});
+    } catch (err) {
+      error = err;
+    }
+    chai.assert.instanceOf(error, Error);
+    chai.assert.match(error!.message, /^WrapperMismatch: The V8 root range \(1000\) does not match the source text \(20\)/);
+    chai.assert.include(error!.message, "node-cjs");
+  });
+
+  it("reports the scripts without a root range", async () => {
+    const processCov: ProcessCov = getProcessCov();
+    processCov.result[4] = {...processCov.result[4], functions: []};
+    const errors: string[] = [];
+    await istanbulizeProcessCov(processCov, {
+      loadSource: async (path: string) => SOURCES[path],
+      onError: (path: string, error: Error) => errors.push(`${path}: ${error.message}`),
+    });
+    chai.assert.lengthOf(errors, 1);
+    chai.assert.match(errors[0], /^\/project\/excluded\.js: InvalidScriptCov: /);
+  });
+
+  it("skips the CommonJS facades", async () => {
+    const actual: Record<string, IstanbulFileCoverageData> = await istanbulizeProcessCov(getProcessCov(), {
+      loadSource: async (path: string) => path === "/project/lib.js"
+        ? "import.meta.exports.default = 1;\nimport.meta.done();\n"
+        : SOURCES[path],
+    });
+    chai.assert.deepEqual(Object.keys(actual), ["/project/main.mjs", "/project/excluded.js"]);
+  });
+});
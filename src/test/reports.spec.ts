@@ -0,0 +1,185 @@
+import chai from "chai";
+import { toCobertura, toLcov, toTextSummary } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+// const f = function (a) {
+//   return a ? 1 : 2;
+// };
+// f(true);
+const MAIN_FILE_COV: IstanbulFileCoverageData = {
+  path: "src/main.js",
+  statementMap: {
+    s0: {start: {line: 1, column: 0}, end: {line: 3, column: 2}},
+    s1: {start: {line: 2, column: 2}, end: {line: 2, column: 19}},
+    s2: {start: {line: 4, column: 0}, end: {line: 4, column: 8}},
+  },
+  s: {s0: 1, s1: 1, s2: 1},
+  fnMap: {
+    f0: {
+      name: "",
+      decl: {start: {line: 1, column: 10}, end: {line: 1, column: 18}},
+      loc: {start: {line: 1, column: 10}, end: {line: 3, column: 1}},
+      line: 1,
+    },
+  },
+  f: {f0: 1},
+  branchMap: {
+    b0: {
+      type: "cond-expr",
+      line: 2,
+      loc: {start: {line: 2, column: 9}, end: {line: 2, column: 18}},
+      locations: [
+        {start: {line: 2, column: 13}, end: {line: 2, column: 14}},
+        {start: {line: 2, column: 17}, end: {line: 2, column: 18}},
+      ],
+    },
+  },
+  b: {b0: [1, 0]},
+};
+
+// function g(a) { return a || 0; }
+const LIB_FILE_COV: IstanbulFileCoverageData = {
+  path: "lib/a&b.js",
+  statementMap: {
+    s0: {start: {line: 1, column: 16}, end: {line: 1, column: 30}},
+  },
+  s: {s0: 0},
+  fnMap: {
+    f0: {
+      name: "g",
+      decl: {start: {line: 1, column: 9}, end: {line: 1, column: 10}},
+      loc: {start: {line: 1, column: 0}, end: {line: 1, column: 32}},
+      line: 1,
+    },
+  },
+  f: {f0: 0},
+  branchMap: {
+    b0: {
+      type: "binary-expr",
+      line: 1,
+      loc: {start: {line: 1, column: 23}, end: {line: 1, column: 29}},
+      locations: [
+        {start: {line: 1, column: 23}, end: {line: 1, column: 24}},
+        {start: {line: 1, column: 28}, end: {line: 1, column: 29}},
+      ],
+    },
+  },
+  b: {b0: [0, 0]},
+  l: {1: 0},
+};
+
+describe("toLcov", () => {
+  it("writes the records of each file sorted by path", () => {
+    const actual: string = toLcov([MAIN_FILE_COV, LIB_FILE_COV]);
+    const expected: string = [
+      "TN:",
+      "SF:lib/a&b.js",
+      "FN:1,g",
+      "FNDA:0,g",
+      "FNF:1",
+      "FNH:0",
+      "DA:1,0",
+      "LF:1",
+      "LH:0",
+      "BRDA:1,0,0,-",
+      "BRDA:1,0,1,-",
+      "BRF:2",
+      "BRH:0",
+      "end_of_record",
+      "TN:",
+      "SF:src/main.js",
+      "FN:1,(anonymous_0)",
+      "FNDA:1,(anonymous_0)",
+      "FNF:1",
+      "FNH:1",
+      "DA:1,1",
+      "DA:2,1",
+      "DA:4,1",
+      "LF:3",
+      "LH:3",
+      "BRDA:2,0,0,1",
+      "BRDA:2,0,1,0",
+      "BRF:2",
+      "BRH:1",
+      "end_of_record",
+      "",
+    ].join("\n");
+    chai.assert.strictEqual(actual, expected);
+  });
+});
+
+describe("toCobertura", () => {
+  it("writes a class for each file in a package for each directory", () => {
+    const actual: string = toCobertura({[MAIN_FILE_COV.path]: MAIN_FILE_COV, [LIB_FILE_COV.path]: LIB_FILE_COV});
+    const expected: string = [
+      "<?xml version=\"1.0\" ?>",
+      "<!DOCTYPE coverage SYSTEM \"http://cobertura.sourceforge.net/xml/coverage-04.dtd\">",
+      "<coverage lines-valid=\"4\" lines-covered=\"3\" line-rate=\"0.75\" branches-valid=\"4\" branches-covered=\"1\""
+      + " branch-rate=\"0.25\" timestamp=\"0\" complexity=\"0\" version=\"0.1\">",
+      "  <sources>",
+      "    <source>.</source>",
+      "  </sources>",
+      "  <packages>",
+      "    <package name=\"lib\" line-rate=\"0\" branch-rate=\"0\">",
+      "      <classes>",
+      "        <class name=\"a&amp;b.js\" filename=\"lib/a&amp;b.js\" line-rate=\"0\" branch-rate=\"0\">",
+      "          <methods>",
+      "            <method name=\"g\" hits=\"0\" signature=\"()V\">",
+      "              <lines>",
+      "                <line number=\"1\" hits=\"0\"/>",
+      "              </lines>",
+      "            </method>",
+      "          </methods>",
+      "          <lines>",
+      "            <line number=\"1\" hits=\"0\" branch=\"true\" condition-coverage=\"0% (0/2)\"/>",
+      "          </lines>",
+      "        </class>",
+      "      </classes>",
+      "    </package>",
+      "    <package name=\"src\" line-rate=\"1\" branch-rate=\"0.5\">",
+      "      <classes>",
+      "        <class name=\"main.js\" filename=\"src/main.js\" line-rate=\"1\" branch-rate=\"0.5\">",
+      "          <methods>",
+      "            <method name=\"(anonymous_0)\" hits=\"1\" signature=\"()V\">",
+      "              <lines>",
+      "                <line number=\"1\" hits=\"1\"/>",
+      "              </lines>",
+      "            </method>",
+      "          </methods>",
+      "          <lines>",
+      "            <line number=\"1\" hits=\"1\" branch=\"false\"/>",
+      "            <line number=\"2\" hits=\"1\" branch=\"true\" condition-coverage=\"50% (1/2)\"/>",
+      "            <line number=\"4\" hits=\"1\" branch=\"false\"/>",
+      "          </lines>",
+      "        </class>",
+      "      </classes>",
+      "    </package>",
+      "  </packages>",
+      "</coverage>",
+      "",
+    ].join("\n");
+    chai.assert.strictEqual(actual, expected);
+  });
+});
+
+describe("toTextSummary", () => {
+  it("formats the percentages of the report", () => {
+    const actual: string = toTextSummary([MAIN_FILE_COV, LIB_FILE_COV]);
+    const expected: string = [
+      "",
+      "=============================== Coverage summary ===============================",
+      "Statements   : 75% ( 3/4 )",
+      "Branches     : 25% ( 1/4 )",
+      "Functions    : 50% ( 1/2 )",
+      "Lines        : 75% ( 3/4 )",
+      "================================================================================",
+      "",
+    ].join("\n");
+    chai.assert.strictEqual(actual, expected);
+  });
+
+  it("reports unknown percentages without items", () => {
+    const actual: string = toTextSummary([]);
+    chai.assert.include(actual, "Branches     : Unknown% ( 0/0 )");
+  });
+});
@@ -0,0 +1,63 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import fs from "fs";
+import path from "path";
+import { istanbulize, SourceType, toScriptCov } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const FIXTURES_DIR = path.posix.resolve(__dirname, "fixtures");
+
+interface FixtureData {
+  sourceText: string;
+  sourceType: SourceType;
+  scriptCov: ScriptCov;
+}
+
+describe("toScriptCov", () => {
+  for (const fixture of fs.readdirSync(FIXTURES_DIR)) {
+    it(`round-trips through istanbulize: ${fixture}`, () => {
+      const data: FixtureData[] = JSON.parse(fs.readFileSync(path.resolve(FIXTURES_DIR, fixture, "v8.json"), "UTF-8"));
+      for (const item of data) {
+        const expected: IstanbulFileCoverageData = istanbulize(item);
+        const scriptCov: ScriptCov = toScriptCov({...item, data: expected});
+        const actual: IstanbulFileCoverageData = istanbulize({...item, scriptCov});
+        chai.assert.deepEqual(actual, expected);
+      }
+    });
+  }
+
+  it("uses the function of the body location of instrumented data", () => {
+    const sourceText: string = "function f(x) {\n  return x;\n}\n";
+    const data: IstanbulFileCoverageData = {
+      path: "/main.js",
+      statementMap: {
+        0: {start: {line: 2, column: 2}, end: {line: 2, column: 11}},
+      },
+      s: {0: 3},
+      fnMap: {
+        0: {
+          name: "f",
+          decl: {start: {line: 1, column: 9}, end: {line: 1, column: 10}},
+          loc: {start: {line: 1, column: 14}, end: {line: 3, column: 1}},
+          line: 1,
+        },
+      },
+      f: {0: 3},
+      branchMap: {},
+      b: {},
+    };
+    const actual: ScriptCov = toScriptCov({data, sourceText, sourceType: SourceType.Script});
+    chai.assert.deepEqual(actual, {
+      scriptId: "0",
+      url: "/main.js",
+      functions: [
+        {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 30, count: 1}]},
+        {
+          functionName: "f",
+          isBlockCoverage: true,
+          ranges: [{startOffset: 0, endOffset: 29, count: 3}, {startOffset: 18, endOffset: 27, count: 3}],
+        },
+      ],
+    });
+  });
+});
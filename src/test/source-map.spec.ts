@@ -0,0 +1,101 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { RawSourceMap, SourceMapGenerator } from "source-map";
+import {
+  getInlineSourceMap,
+  istanbulize,
+  istanbulizeSourceMapped,
+  IstanbulizeSourceMapOptions,
+  SourceType,
+} from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const SOURCE_TEXT: string = "function add(a, b) {\n  return a + b;\n}\nadd(1, 2);\n";
+
+const SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: "file:///main.js",
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 50, count: 1}]},
+    {functionName: "add", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 38, count: 1}]},
+  ],
+};
+
+/**
+ * Source map where the original file has an extra header line, the last line
+ * of the generated script (`add(1, 2);`) has no mapping.
+ */
+function getSourceMap(): RawSourceMap {
+  const generator: SourceMapGenerator = new SourceMapGenerator({file: "main.js"});
+  const positions: [number, number][] = [[1, 0], [1, 9], [1, 12], [2, 2], [2, 15], [3, 0], [3, 1]];
+  for (const [line, column] of positions) {
+    generator.addMapping({
+      source: "src/lib.ts",
+      generated: {line, column},
+      original: {line: line + 1, column},
+    });
+  }
+  return JSON.parse(generator.toString());
+}
+
+describe("istanbulizeSourceMapped", () => {
+  it("remaps the coverage to the original source", () => {
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeSourceMapped({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+      sourceMap: getSourceMap(),
+    });
+    chai.assert.deepEqual(Object.keys(actual), ["/src/lib.ts"]);
+    const fileCov: IstanbulFileCoverageData = actual["/src/lib.ts"];
+    chai.assert.deepEqual(fileCov.statementMap, {
+      s0: {start: {line: 3, column: 2}, end: {line: 3, column: 15}},
+    });
+    chai.assert.deepEqual(fileCov.s, {s0: 1});
+    chai.assert.strictEqual(fileCov.fnMap.f0.name, "add");
+    chai.assert.deepEqual(fileCov.fnMap.f0.loc, {start: {line: 2, column: 0}, end: {line: 4, column: 1}});
+    chai.assert.strictEqual(fileCov.fnMap.f0.line, 2);
+    chai.assert.deepEqual(fileCov.f, {f0: 1});
+  });
+
+  it("keeps the keys, the hash and the line counts", () => {
+    const options: IstanbulizeSourceMapOptions = {
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+      sourceMap: getSourceMap(),
+      stableKeys: true,
+      hash: true,
+      lines: true,
+    };
+    const generated: IstanbulFileCoverageData = istanbulize(options);
+    const actual: IstanbulFileCoverageData = istanbulizeSourceMapped(options)["/src/lib.ts"];
+    // The statement of the last line has no mapping
+    chai.assert.deepEqual(Object.keys(actual.s), Object.keys(generated.s).slice(0, 1));
+    chai.assert.deepEqual(Object.keys(actual.f), Object.keys(generated.f));
+    chai.assert.strictEqual(actual.hash, generated.hash);
+    chai.assert.deepEqual({...generated.l}, {1: 1, 2: 1, 3: 1, 4: 1});
+    chai.assert.deepEqual({...actual.l}, {2: 1, 3: 1, 4: 1});
+  });
+
+  it("reads the inline source map", () => {
+    const sourceMap: RawSourceMap = getSourceMap();
+    const base64: string = Buffer.from(JSON.stringify(sourceMap)).toString("base64");
+    const sourceText: string = `${SOURCE_TEXT}//# sourceMappingURL=data:application/json;base64,${base64}\n`;
+    chai.assert.deepEqual(getInlineSourceMap(sourceText), sourceMap);
+    const actual: Record<string, IstanbulFileCoverageData> = istanbulizeSourceMapped({
+      sourceText,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+    });
+    chai.assert.deepEqual(Object.keys(actual), ["/src/lib.ts"]);
+  });
+
+  it("throws if there is no source map", () => {
+    chai.assert.throws(() => istanbulizeSourceMapped({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: SCRIPT_COV,
+    }), /SourceMapNotFound/);
+  });
+});
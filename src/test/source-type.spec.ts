@@ -0,0 +1,103 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import url from "url";
+import { getFileSourceType, istanbulize, ResolvedSourceType, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+function getScriptCov(scriptUrl: string, sourceText: string): ScriptCov {
+  return {
+    scriptId: "1",
+    url: scriptUrl,
+    functions: [
+      {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: sourceText.length, count: 1}]},
+    ],
+  };
+}
+
+describe("getFileSourceType", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "istanbulize-"));
+    fs.mkdirSync(path.join(dir, "cjs"));
+    fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({type: "module"}));
+    fs.writeFileSync(path.join(dir, "cjs", "package.json"), JSON.stringify({}));
+  });
+
+  after(() => {
+    fs.unlinkSync(path.join(dir, "cjs", "package.json"));
+    fs.rmdirSync(path.join(dir, "cjs"));
+    fs.unlinkSync(path.join(dir, "package.json"));
+    fs.rmdirSync(dir);
+  });
+
+  it("uses the extension", () => {
+    chai.assert.strictEqual(getFileSourceType(path.join(dir, "cjs", "main.mjs")), SourceType.Module);
+    chai.assert.strictEqual(getFileSourceType(path.join(dir, "main.cjs")), SourceType.Script);
+    chai.assert.isUndefined(getFileSourceType(path.join(dir, "main.ts")));
+  });
+
+  it("uses the type of the nearest package.json", () => {
+    chai.assert.strictEqual(getFileSourceType(path.join(dir, "main.js")), SourceType.Module);
+    chai.assert.strictEqual(getFileSourceType(path.join(dir, "cjs", "main.js")), SourceType.Script);
+  });
+
+  it("caches the type of each searched directory", () => {
+    const packageTypes: Map<string, ResolvedSourceType | undefined> = new Map();
+    chai.assert.strictEqual(getFileSourceType(path.join(dir, "cjs", "lib", "main.js"), packageTypes), SourceType.Script);
+    chai.assert.deepEqual([...packageTypes], [
+      [path.join(dir, "cjs", "lib"), SourceType.Script],
+      [path.join(dir, "cjs"), SourceType.Script],
+    ]);
+    // The cached type is used instead of the package.json
+    packageTypes.set(dir, SourceType.Script);
+    chai.assert.strictEqual(getFileSourceType(path.join(dir, "main.js"), packageTypes), SourceType.Script);
+  });
+
+  it("is used by `auto` for file URLs", () => {
+    // Valid module, but the package.json makes it a script
+    const sourceText: string = "var x = 1;\n";
+    const scriptUrl: string = url.pathToFileURL(path.join(dir, "cjs", "main.js")).href;
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Auto,
+      scriptCov: getScriptCov(scriptUrl, sourceText),
+    });
+    chai.assert.strictEqual(actual.sourceType, "script");
+  });
+});
+
+describe("istanbulize", () => {
+  it("detects modules with `auto`", () => {
+    const sourceText: string = "console.log(import.meta.url);\n";
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Auto,
+      scriptCov: getScriptCov("http://localhost/main.js", sourceText),
+    });
+    chai.assert.strictEqual(actual.sourceType, "module");
+  });
+
+  it("detects sloppy-mode scripts with `auto`", () => {
+    const sourceText: string = "with (Math) { max(1, 2); }\n";
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Auto,
+      scriptCov: getScriptCov("http://localhost/main.js", sourceText),
+    });
+    chai.assert.strictEqual(actual.sourceType, "script");
+  });
+
+  it("does not report explicit source types", () => {
+    const sourceText: string = "void 0;\n";
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText,
+      sourceType: SourceType.Script,
+      scriptCov: getScriptCov("http://localhost/main.js", sourceText),
+    });
+    chai.assert.isUndefined(actual.sourceType);
+  });
+});
@@ -0,0 +1,20 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { istanbulize, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+describe("Statements", () => {
+  it("counts the top-level statements when the script range includes the trailing whitespace", () => {
+    // The source text is right-trimmed before parsing: the `Program` node ends at 15
+    const sourceText: string = "void 0;\nvoid 1;\n\n";
+    const scriptCov: ScriptCov = {
+      scriptId: "1",
+      url: "file:///main.js",
+      functions: [
+        {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 18, count: 1}]},
+      ],
+    };
+    const actual: IstanbulFileCoverageData = istanbulize({sourceText, sourceType: SourceType.Script, scriptCov});
+    chai.assert.deepEqual(actual.s, {s0: 1, s1: 1});
+  });
+});
@@ -0,0 +1,98 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import { IstambulizeScript, istanbulize, SourceType } from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+const SOURCE_TEXT: string = [
+  "function f(a) {",
+  "  const x = a && g();",
+  "  const y = a ? g() : 0;",
+  "  if (!a) return 1;",
+  "  g();",
+  "  return 2;",
+  "}",
+  "function g() { return 3; }",
+  "f(false);",
+  "",
+].join("\n");
+
+/**
+ * Coverage of `f(false)`.
+ */
+const FALSE_SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: "file:///main.js",
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 141, count: 1}]},
+    {
+      functionName: "f",
+      isBlockCoverage: true,
+      ranges: [
+        {startOffset: 0, endOffset: 103, count: 1},
+        {startOffset: 30, endOffset: 36, count: 0},
+        {startOffset: 52, endOffset: 57, count: 0},
+        {startOffset: 82, endOffset: 102, count: 0},
+      ],
+    },
+    {functionName: "g", isBlockCoverage: false, ranges: [{startOffset: 104, endOffset: 130, count: 0}]},
+  ],
+};
+
+/**
+ * Coverage of `f(true)`.
+ */
+const TRUE_SCRIPT_COV: ScriptCov = {
+  scriptId: "1",
+  url: "file:///main.js",
+  functions: [
+    {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 141, count: 1}]},
+    {
+      functionName: "f",
+      isBlockCoverage: true,
+      ranges: [
+        {startOffset: 0, endOffset: 103, count: 1},
+        {startOffset: 58, endOffset: 61, count: 0},
+        {startOffset: 73, endOffset: 82, count: 0},
+      ],
+    },
+    {functionName: "g", isBlockCoverage: true, ranges: [{startOffset: 104, endOffset: 130, count: 3}]},
+  ],
+};
+
+describe("subStatements", () => {
+  it("adds the regions of statements that were not executed", () => {
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: FALSE_SCRIPT_COV,
+      subStatements: true,
+    });
+    chai.assert.lengthOf(Object.keys(actual.s), 10);
+    chai.assert.deepEqual(actual.statementMap.s8, {start: {line: 2, column: 14}, end: {line: 2, column: 20}});
+    chai.assert.deepEqual(actual.statementMap.s9, {start: {line: 3, column: 14}, end: {line: 3, column: 19}});
+    chai.assert.deepEqual([actual.s.s8, actual.s.s9], [0, 0]);
+  });
+
+  it("sums the counts of the regions", () => {
+    const script: IstambulizeScript = new IstambulizeScript({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      subStatements: true,
+    });
+    script.add(FALSE_SCRIPT_COV);
+    script.add(TRUE_SCRIPT_COV);
+    const actual: IstanbulFileCoverageData = script.toIstanbul();
+    chai.assert.lengthOf(Object.keys(actual.s), 11);
+    chai.assert.deepEqual(actual.statementMap.s10, {start: {line: 3, column: 20}, end: {line: 3, column: 23}});
+    chai.assert.deepEqual([actual.s.s8, actual.s.s9, actual.s.s10], [1, 1, 1]);
+  });
+
+  it("is disabled by default", () => {
+    const actual: IstanbulFileCoverageData = istanbulize({
+      sourceText: SOURCE_TEXT,
+      sourceType: SourceType.Script,
+      scriptCov: FALSE_SCRIPT_COV,
+    });
+    chai.assert.lengthOf(Object.keys(actual.s), 8);
+  });
+});
@@ -0,0 +1,125 @@
+import chai from "chai";
+import {
+  checkThresholds,
+  CoverageMetric,
+  CoverageSummary,
+  getFileSummary,
+  getReportSummary,
+  ReportSummary,
+  ThresholdScope,
+  ThresholdViolation,
+} from "../lib";
+import { IstanbulFileCoverageData } from "../lib/types";
+
+// function f(a) {
+//   return a ? 1 : 2;
+// }
+// f(true);
+const MAIN_FILE_COV: IstanbulFileCoverageData = {
+  path: "src/main.js",
+  statementMap: {
+    s0: {start: {line: 2, column: 2}, end: {line: 2, column: 19}},
+    s1: {start: {line: 4, column: 0}, end: {line: 4, column: 8}},
+  },
+  s: {s0: 1, s1: 1},
+  fnMap: {
+    f0: {
+      name: "f",
+      decl: {start: {line: 1, column: 9}, end: {line: 1, column: 10}},
+      loc: {start: {line: 1, column: 0}, end: {line: 3, column: 1}},
+      line: 1,
+    },
+  },
+  f: {f0: 1},
+  branchMap: {
+    b0: {
+      type: "cond-expr",
+      line: 2,
+      loc: {start: {line: 2, column: 9}, end: {line: 2, column: 18}},
+      locations: [
+        {start: {line: 2, column: 13}, end: {line: 2, column: 14}},
+        {start: {line: 2, column: 17}, end: {line: 2, column: 18}},
+      ],
+    },
+  },
+  b: {b0: [1, 0]},
+};
+
+// function g() {}
+// void 0;
+const LIB_FILE_COV: IstanbulFileCoverageData = {
+  path: "lib/lib.js",
+  statementMap: {
+    s0: {start: {line: 2, column: 0}, end: {line: 2, column: 7}},
+  },
+  s: {s0: 1},
+  fnMap: {
+    f0: {
+      name: "g",
+      decl: {start: {line: 1, column: 9}, end: {line: 1, column: 10}},
+      loc: {start: {line: 1, column: 0}, end: {line: 1, column: 15}},
+      line: 1,
+    },
+  },
+  f: {f0: 0},
+  branchMap: {},
+  b: {},
+  l: {1: 0, 2: 1},
+};
+
+describe("getFileSummary", () => {
+  it("counts the covered items", () => {
+    const actual: CoverageSummary = getFileSummary(MAIN_FILE_COV);
+    chai.assert.deepEqual(actual, {
+      statements: {total: 2, covered: 2, pct: 100},
+      functions: {total: 1, covered: 1, pct: 100},
+      branches: {total: 2, covered: 1, pct: 50},
+      lines: {total: 2, covered: 2, pct: 100},
+    });
+  });
+
+  it("uses the line counts if present", () => {
+    const actual: CoverageSummary = getFileSummary(LIB_FILE_COV);
+    chai.assert.deepEqual(actual.lines, {total: 2, covered: 1, pct: 50});
+    chai.assert.deepEqual(actual.branches, {total: 0, covered: 0, pct: 100});
+  });
+});
+
+describe("getReportSummary", () => {
+  it("sums the summaries of the files", () => {
+    const actual: ReportSummary = getReportSummary([MAIN_FILE_COV, LIB_FILE_COV]);
+    chai.assert.hasAllKeys(actual.files, ["src/main.js", "lib/lib.js"]);
+    chai.assert.deepEqual(actual.total, {
+      statements: {total: 3, covered: 3, pct: 100},
+      functions: {total: 2, covered: 1, pct: 50},
+      branches: {total: 2, covered: 1, pct: 50},
+      lines: {total: 4, covered: 3, pct: 75},
+    });
+  });
+
+  it("truncates the percentages", () => {
+    const fileCov: IstanbulFileCoverageData = {...LIB_FILE_COV, l: {1: 1, 2: 1, 3: 0}};
+    chai.assert.strictEqual(getReportSummary({[fileCov.path]: fileCov}).total.lines.pct, 66.66);
+  });
+});
+
+describe("checkThresholds", () => {
+  const summary: ReportSummary = getReportSummary([MAIN_FILE_COV, LIB_FILE_COV]);
+
+  it("returns the global, per-file and pattern violations", () => {
+    const actual: ThresholdViolation[] = checkThresholds(summary, {
+      global: {statements: 90, functions: 90},
+      perFile: {branches: 60},
+      patterns: {"lib/**": {lines: 60}, "src/**": {lines: 60}},
+    });
+    chai.assert.deepEqual(actual, [
+      {scope: ThresholdScope.Global, metric: CoverageMetric.Functions, threshold: 90, actual: 50},
+      {scope: ThresholdScope.File, path: "src/main.js", metric: CoverageMetric.Branches, threshold: 60, actual: 50},
+      {scope: ThresholdScope.Pattern, pattern: "lib/**", metric: CoverageMetric.Lines, threshold: 60, actual: 50},
+    ]);
+  });
+
+  it("returns no violations when the thresholds are met", () => {
+    chai.assert.deepEqual(checkThresholds(summary, {global: {statements: 100, lines: 75}}), []);
+  });
+});
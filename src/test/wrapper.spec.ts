@@ -0,0 +1,92 @@
+import { ScriptCov } from "@c88/v8-coverage";
+import chai from "chai";
+import Module from "module";
+import { detectWrapper, getPresetWrapper, unwrapScriptCov, unwrapSourceText, WrapperPreset } from "../lib";
+
+function getScriptCov(rootLen: number): ScriptCov {
+  return {
+    scriptId: "1",
+    url: "file:///main.js",
+    functions: [
+      {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: rootLen, count: 1}]},
+    ],
+  };
+}
+
+function getWrapperLen(preset: WrapperPreset): number {
+  const [prefix, suffix] = getPresetWrapper(preset);
+  return String(prefix).length + String(suffix).length;
+}
+
+describe("detectWrapper", () => {
+  const sourceText: string = "void 0;\n";
+
+  it("detects unwrapped scripts", () => {
+    chai.assert.deepEqual(detectWrapper(getScriptCov(8), sourceText), [0, 0]);
+  });
+
+  it("detects right-trimmed unwrapped scripts", () => {
+    chai.assert.deepEqual(detectWrapper(getScriptCov(7), sourceText), [0, 0]);
+  });
+
+  it("detects the Node CommonJS wrapper", () => {
+    const [prefix, suffix] = (Module as any).wrapper;
+    const rootLen: number = prefix.length + sourceText.length + suffix.length;
+    chai.assert.deepEqual(detectWrapper(getScriptCov(rootLen), sourceText), [prefix.length, suffix.length]);
+  });
+
+  it("detects the Jest wrapper", () => {
+    const rootLen: number = getWrapperLen(WrapperPreset.Jest) + sourceText.length;
+    const [prefix, suffix] = getPresetWrapper(WrapperPreset.Jest);
+    chai.assert.deepEqual(
+      detectWrapper(getScriptCov(rootLen), sourceText),
+      [String(prefix).length, String(suffix).length],
+    );
+  });
+
+  it("detects a removed shebang", () => {
+    const text: string = "#!/usr/bin/env node\nvoid 0;\n";
+    const rootLen: number = getWrapperLen(WrapperPreset.NodeCjs) + text.length - "#!/usr/bin/env node".length;
+    const [prefix, suffix] = (Module as any).wrapper;
+    chai.assert.deepEqual(
+      detectWrapper(getScriptCov(rootLen), text),
+      [prefix.length - "#!/usr/bin/env node".length, suffix.length],
+    );
+  });
+
+  it("detects a removed BOM", () => {
+    chai.assert.deepEqual(detectWrapper(getScriptCov(7), "\uFEFFvoid 0;"), [-1, 0]);
+  });
+
+  it("reports the mismatch", () => {
+    chai.assert.throws(
+      () => detectWrapper(getScriptCov(1000), sourceText, [WrapperPreset.VmCompileFunction, [3, 2]]),
+      /^WrapperMismatch: The V8 root range \(1000\) does not match the source text \(8\) of file:\/\/\/main\.js with any wrapper: vm\.compileFunction \(\+0\), \[3, 2\] \(\+5\)$/,
+    );
+  });
+});
+
+describe("unwrapScriptCov", () => {
+  it("shifts the ranges by the removed prefix", () => {
+    const scriptCov: ScriptCov = {
+      scriptId: "1",
+      url: "file:///main.js",
+      functions: [
+        {functionName: "", isBlockCoverage: true, ranges: [{startOffset: 0, endOffset: 20, count: 1}]},
+        {functionName: "f", isBlockCoverage: true, ranges: [{startOffset: 5, endOffset: 10, count: 2}]},
+      ],
+    };
+    const actual: ScriptCov = unwrapScriptCov(scriptCov, [-3, 0]);
+    chai.assert.deepEqual(actual.functions.map(({ranges}) => ranges), [
+      [{startOffset: 0, endOffset: 23, count: 1}],
+      [{startOffset: 8, endOffset: 13, count: 2}],
+    ]);
+  });
+});
+
+describe("unwrapSourceText", () => {
+  it("removes the wrapper of a preset", () => {
+    const [prefix, suffix] = getPresetWrapper(WrapperPreset.Jest);
+    chai.assert.strictEqual(unwrapSourceText(`${prefix}void 0;${suffix}`, WrapperPreset.Jest), "void 0;");
+  });
+});
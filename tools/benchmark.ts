@@ -0,0 +1,105 @@
+import { FunctionCov, ScriptCov } from "@c88/v8-coverage";
+import sysPath from "path";
+import { IstambulizeScript, IstanbulFileCoverageData, SourceType } from "../src/lib";
+
+/**
+ * Synthetic bundle: the source text and V8 coverage of a script with many functions.
+ */
+interface BenchmarkFixture {
+  sourceText: string;
+  scriptCov: ScriptCov;
+}
+
+/**
+ * Constructor of `IstambulizeScript`, from this tree or from a baseline tree.
+ */
+type ScriptConstructor = new (options: {sourceText: string; sourceType: SourceType}) => {
+  add(scriptCov: ScriptCov): void;
+  toIstanbul(): IstanbulFileCoverageData;
+};
+
+/**
+ * Generates a bundle-like script with `functionCount` functions, each with a
+ * nested block and a few statements. Every other function is called.
+ */
+function generateFixture(functionCount: number): BenchmarkFixture {
+  const chunks: string[] = [];
+  const functions: FunctionCov[] = [];
+  let offset: number = 0;
+  for (let i: number = 0; i < functionCount; i++) {
+    const count: number = i % 2;
+    const head: string = `function f${i}(x) {\n  const y = x + ${i};\n  if (y > 0) `;
+    const block: string = `{\n    x++;\n  }`;
+    const tail: string = `\n  return y;\n}\n`;
+    const blockStart: number = offset + head.length;
+    const blockEnd: number = blockStart + block.length;
+    const end: number = blockEnd + tail.length - 1;
+    functions.push({
+      functionName: `f${i}`,
+      isBlockCoverage: true,
+      ranges: [
+        {startOffset: offset, endOffset: end, count},
+        {startOffset: blockStart, endOffset: blockEnd, count: 0},
+      ],
+    });
+    chunks.push(head, block, tail);
+    offset = end + 1;
+  }
+  const sourceText: string = chunks.join("");
+  functions.unshift({
+    functionName: "",
+    isBlockCoverage: true,
+    ranges: [{startOffset: 0, endOffset: sourceText.length, count: 1}],
+  });
+  return {sourceText, scriptCov: {scriptId: "0", url: "file:///bundle.js", functions}};
+}
+
+/**
+ * Runs the benchmark with the implementation of this tree, then with the
+ * build of the `BASELINE` tree if set (`yarn install` builds it with the
+ * `prepare` script).
+ *
+ * To compare with another revision, for example the commit before the
+ * function-indexing change (when the ranges were not indexed by offset yet):
+ *
+ * ```
+ * git worktree add ../istanbulize-baseline <revision>
+ * (cd ../istanbulize-baseline && yarn install)
+ * BASELINE=../istanbulize-baseline yarn benchmark
+ * ```
+ */
+function main(): void {
+  const functionCount: number = process.env.FUNCTIONS !== undefined ? parseInt(process.env.FUNCTIONS, 10) : 10000;
+  const fixture: BenchmarkFixture = generateFixture(functionCount);
+  run("current", IstambulizeScript, fixture);
+  if (process.env.BASELINE !== undefined) {
+    const baseline: {IstambulizeScript: ScriptConstructor} = require(sysPath.resolve(process.env.BASELINE, "build/lib"));
+    run("baseline", baseline.IstambulizeScript, fixture);
+  }
+}
+
+function run(name: string, Script: ScriptConstructor, {sourceText, scriptCov}: BenchmarkFixture): void {
+  const parseTime: number = measure(() => new Script({sourceText, sourceType: SourceType.Script}));
+  const script: InstanceType<ScriptConstructor> = new Script({sourceText, sourceType: SourceType.Script});
+  const addTime: number = measure(() => script.add(scriptCov));
+  let result: IstanbulFileCoverageData | undefined;
+  const reportTime: number = measure(() => result = script.toIstanbul());
+  const functionCount: number = Object.keys(result!.f).length;
+  const statementCount: number = Object.keys(result!.s).length;
+  // tslint:disable-next-line:no-console
+  console.log(`${name}: ${functionCount} functions, ${statementCount} statements, ${sourceText.length} bytes`);
+  // tslint:disable-next-line:no-console
+  console.log(`parse: ${parseTime.toFixed(0)}ms, add: ${addTime.toFixed(0)}ms, toIstanbul: ${reportTime.toFixed(0)}ms`);
+}
+
+/**
+ * Returns the duration of the call, in milliseconds.
+ */
+function measure(fn: () => void): number {
+  const start: [number, number] = process.hrtime();
+  fn();
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return seconds * 1e3 + nanoseconds / 1e6;
+}
+
+main();
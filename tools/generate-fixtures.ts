@@ -1,11 +1,13 @@
-import { ScriptCov } from "@c88/v8-coverage";
+import { mergeScriptCovs, ScriptCov } from "@c88/v8-coverage";
 import assert from "assert";
 import { ModuleInfo } from "c88/filter";
 import { RichScriptCov, spawnInspected } from "c88/spawn-inspected";
+import crypto from "crypto";
 import fs from "fs";
 import * as furi from "furi";
 import { ParsedScriptUrl, parseSys as parseNodeScriptUrl } from "node-script-url";
 import sysPath from "path";
+import { isCjsFacade } from "../src/lib";
 
 async function main(): Promise<void> {
   for await (const fixture of getFixtures()) {
@@ -19,9 +21,6 @@ interface Fixture {
   output: string;
 }
 
-// https://github.com/nodejs/node/blob/966a2df0f620cfe59e6ce2b161ff8bf7446b46ee/lib/internal/modules/esm/create_dynamic_module.js#L14
-const CJS_FACADE: RegExp = /import\.meta\.exports\.[\s\S]*import\.meta\.done()/;
-
 async function* getFixtures(): AsyncIterable<Fixture> {
   const projectRoot = sysPath.resolve(__dirname, "..");
   const fixturesDir = sysPath.resolve(projectRoot, "src", "test", "fixtures");
@@ -55,7 +54,8 @@ async function generateFixture(fixture: Fixture): Promise<void> {
     {
       cwd: fixture.dir,
       filter(info: ModuleInfo): boolean {
-        return /\/fixtures\//.test(info.url);
+        // Scripts without a URL are compiled by the fixture (`eval`, `new Function`, `vm`)
+        return info.url === "" || /\/fixtures\//.test(info.url);
       },
     },
   );
@@ -83,8 +83,20 @@ function normalizeData(
 ): FixtureData[] {
   const result: FixtureData[] = [];
   const baseDirUrl: string = furi.fromSysPath(baseDir).href;
+  // Compilations of the in-memory scripts, keyed by source text hash
+  const inMemoryScripts: Map<string, RichScriptCov[]> = new Map();
   for (const scriptCov of scriptCovs) {
-    if (scriptCov.url === "" || CJS_FACADE.test(scriptCov.sourceText)) {
+    if (scriptCov.url === "") {
+      const hash: string = crypto.createHash("sha1").update(scriptCov.sourceText).digest("hex");
+      let compilations: RichScriptCov[] | undefined = inMemoryScripts.get(hash);
+      if (compilations === undefined) {
+        compilations = [];
+        inMemoryScripts.set(hash, compilations);
+      }
+      compilations.push(scriptCov);
+      continue;
+    }
+    if (isCjsFacade(scriptCov.sourceText)) {
       continue;
     }
     const urlInfo: ParsedScriptUrl = parseNodeScriptUrl(scriptCov.url);
@@ -101,6 +113,16 @@ function normalizeData(
       });
     }
   }
+  for (const [hash, compilations] of inMemoryScripts) {
+    // Use a synthetic URL, and merge the counts of all the compilations of the source text
+    const url: string = `file:///anonymous/${hash}.js`;
+    const merged: ScriptCov = mergeScriptCovs(compilations.map((scriptCov: RichScriptCov): ScriptCov => ({
+      scriptId: scriptCov.scriptId,
+      url,
+      functions: scriptCov.functions,
+    })))!;
+    result.push({sourceText: compilations[0].sourceText, sourceType: compilations[0].sourceType, scriptCov: merged});
+  }
   result.sort(compare);
 
   function compare(a: FixtureData, b: FixtureData): -1 | 1 {